@@ -0,0 +1,39 @@
+import {ConcreteSortDescriptor} from "./concrete-sort-descriptor.js";
+import _ from "lodash";
+
+/**
+ * An internal function that appends tiebreaker descriptors to a sort, unless
+ * the sort already ends with them.
+ *
+ * @remarks
+ * Descriptors are matched by value path rather than column, since the same
+ * column may be qualified differently in different sorts.
+ *
+ * Appended tiebreaker descriptors take the direction of the last descriptor in
+ * the sort. This way, sorts in a single direction stay that way, so that they
+ * can still use row value comparisons, and descending sorts are the exact
+ * reverse of their ascending counterparts.
+ *
+ * @param descriptors - The concrete sort descriptors of the sort.
+ * @param tiebreaker - The concrete sort descriptors of the tiebreaker.
+ * @returns The sort descriptors, with the tiebreaker appended if necessary.
+ */
+export function appendTiebreaker(
+	descriptors: ConcreteSortDescriptor[],
+	tiebreaker: ConcreteSortDescriptor[],
+): ConcreteSortDescriptor[] {
+	const endPaths = descriptors
+		.slice(-tiebreaker.length)
+		.map(d => d.valuePath);
+	const tiebreakerPaths = tiebreaker.map(d => d.valuePath);
+	if (
+		_.isEmpty(tiebreaker) ||
+		_.isEqual(endPaths, tiebreakerPaths)
+	) return descriptors;
+	const last = _.last(descriptors);
+	if (!last) return tiebreaker;
+	return [
+		...descriptors,
+		...tiebreaker.map(d => d.withDirection(last.direction)),
+	];
+}
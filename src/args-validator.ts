@@ -0,0 +1,103 @@
+import {Ajv, ErrorObject} from "ajv";
+import _ from "lodash";
+
+/**
+ * The shared Ajv instance used to compile args schemas.
+ *
+ * @remarks
+ * Types are coerced and defaults are applied, since args often come straight
+ * from query strings. Both of these mutate the args in place.
+ */
+const ajv = new Ajv({allErrors: true, coerceTypes: true, useDefaults: true});
+
+/**
+ * The message used for invalid args when no other message is available.
+ */
+const defaultMessage = "Args are invalid";
+
+/**
+ * Describes a single problem found while validating Paginator args.
+ */
+export interface ArgsError {
+	/**
+	 * A JSON pointer to the invalid arg, such as '/projectId', or an empty
+	 * string if the problem is with the args as a whole.
+	 */
+	path: string;
+
+	/**
+	 * A description of the problem.
+	 */
+	message: string;
+}
+
+/**
+ * The signature for custom args validation functions.
+ */
+export interface ArgsValidationFunction {
+	/**
+	 * A custom args validation function.
+	 * @param args - The args to validate.
+	 * @returns true if valid, false if not. May also return a string to
+	 *   indicate invalid args, and the string will be used as the error
+	 *   message, or an array of field-level errors.
+	 */
+	(args: any): boolean | string | ArgsError[];
+}
+
+/**
+ * An internal function that creates a function which validates Paginator args
+ * against a JSON schema or a custom validation function.
+ * @param schema - The JSON schema or custom validation function.
+ * @returns A function that returns an array of errors, which will be empty if
+ *   the args are valid.
+ */
+export function createArgsValidator(
+	schema: object|ArgsValidationFunction,
+): (args: any) => ArgsError[] {
+	if (_.isFunction(schema)) {
+		return args => normalizeResult(schema(args));
+	}
+	const validate = ajv.compile(schema);
+	return args => {
+		if (validate(args)) return [];
+		return (validate.errors || []).map(convertAjvError);
+	};
+}
+
+/**
+ * Converts the result of a custom validation function to an array of errors.
+ * @param result - The result of the custom validation function.
+ * @returns The array of errors.
+ */
+function normalizeResult(result: boolean|string|ArgsError[]): ArgsError[] {
+	if (result === true) return [];
+	if (_.isArray(result)) return result;
+	return [{path: "", message: _.isString(result) ? result : defaultMessage}];
+}
+
+/**
+ * Converts an Ajv error to an args error.
+ *
+ * @remarks
+ * Ajv reports missing properties at the path of the object that is missing
+ * them. Here, the missing property is appended to the path, so that every
+ * error points to the arg it concerns.
+ *
+ * Errors without a message get a default one. Since messages follow their
+ * paths in InvalidArgsError messages, this is a full sentence only for errors
+ * about the args as a whole.
+ *
+ * @param error - The Ajv error.
+ * @returns The args error.
+ */
+function convertAjvError(error: ErrorObject): ArgsError {
+	let path = error.instancePath;
+	if (error.keyword === "required") {
+		path += `/${error.params.missingProperty}`;
+	}
+	return {
+		path,
+		message: error.message || (path ? "is invalid" : defaultMessage),
+	};
+}
@@ -0,0 +1,79 @@
+import {ColumnType} from "./sort-descriptor.js";
+import _ from "lodash";
+
+/**
+ * Used to check bigint values.
+ */
+const bigIntPattern = /^-?\d+$/;
+
+/**
+ * Used to check decimal values.
+ */
+const decimalPattern = /^-?\d+(?:\.\d+)?$/;
+
+/**
+ * Used to check UUID values.
+ */
+const uuidPattern = /^[\da-f]{8}-[\da-f]{4}-[\da-f]{4}-[\da-f]{4}-[\da-f]{12}$/i;
+
+/**
+ * Used to check timestamp values. Only complete timestamps with a time zone
+ * designator will match. These may be ISO-8601 timestamps, or timestamps in
+ * the default text format of Postgres, which separates the date and time with
+ * a space and may abbreviate the time zone offset to hours.
+ */
+const timestampPattern =
+	/^\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}:\d{2}(?:\.\d+)?(?:Z|[+-]\d{2}(?::?\d{2})?)$/;
+
+/**
+ * An internal function that checks if a value matches a column type.
+ *
+ * @remarks
+ * This function simply returns true or false based on the check. It will not
+ * throw if the check fails.
+ *
+ * Values are checked in the form in which they are sent by clients, so
+ * bigints, decimals, and timestamps must be strings. Dates may also be
+ * integer microseconds since the epoch, as stored in cursors.
+ *
+ * @param value - The value to check.
+ * @param columnType - The column type to check against.
+ * @param values - The allowed values, for enum columns.
+ * @returns `true` if the value matches, `false` otherwise.
+ */
+export function checkColumnValue(
+	value: any,
+	columnType: ColumnType,
+	values: any[] = [],
+): boolean {
+	switch (columnType) {
+		case ColumnType.String:
+			return _.isString(value);
+		case ColumnType.Integer:
+			return _.isInteger(value);
+		case ColumnType.Float:
+			return _.isFinite(value);
+		case ColumnType.Boolean:
+			return _.isBoolean(value);
+		case ColumnType.Date:
+			return value instanceof Date ||
+				_.isString(value) ||
+				_.isSafeInteger(value);
+		case ColumnType.BigInt:
+			return _.isString(value) && bigIntPattern.test(value);
+		case ColumnType.Uuid:
+			return _.isString(value) && uuidPattern.test(value);
+		case ColumnType.Decimal:
+			return _.isString(value) && decimalPattern.test(value);
+		case ColumnType.Enum:
+			return values.includes(value);
+		case ColumnType.Timestamp:
+			return _.isString(value) &&
+				timestampPattern.test(value) &&
+				!_.isNaN(Date.parse(value));
+		case ColumnType.Id:
+			return _.isString(value) || _.isSafeInteger(value);
+		default:
+			return false;
+	}
+}
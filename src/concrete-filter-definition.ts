@@ -0,0 +1,376 @@
+import {FilterDefinition, FilterOperator} from "./filter-definition.js";
+import {Model, QueryBuilder} from "objection";
+import {Column} from "./column.js";
+import {ColumnType, ValidationFunction} from "./sort-descriptor.js";
+import {ConfigurationError} from "./configuration-error.js";
+import {InvalidFilterError} from "./invalid-filter-error.js";
+import _ from "lodash";
+import {checkColumnValue} from "./check-column-value.js";
+
+/**
+ * Operators which are used directly as SQL comparison operators.
+ */
+const comparisonOperators: Partial<Record<FilterOperator, string>> = {
+	[FilterOperator.NotEqual]: "<>",
+	[FilterOperator.GreaterThan]: ">",
+	[FilterOperator.GreaterThanOrEqual]: ">=",
+	[FilterOperator.LessThan]: "<",
+	[FilterOperator.LessThanOrEqual]: "<=",
+	[FilterOperator.Like]: "like",
+};
+
+/**
+ * Used to check numeric strings before coercing them to numbers.
+ */
+const numberPattern = /^-?\d+(?:\.\d+)?$/;
+
+/**
+ * Strings which are coerced to booleans.
+ */
+const booleanStrings: Record<string, boolean> = {
+	true: true,
+	false: false,
+	1: true,
+	0: false,
+};
+
+/**
+ * A single validated condition from a client-provided filter.
+ */
+export interface FilterCondition {
+	/**
+	 * The definition of the filtered field.
+	 */
+	definition: ConcreteFilterDefinition;
+
+	/**
+	 * The filter operator.
+	 */
+	operator: FilterOperator;
+
+	/**
+	 * The filter value.
+	 */
+	value: any;
+}
+
+/**
+ * Represents a single field in a Paginator subtype's static filters.
+ *
+ * @remarks
+ * This is an internal class that is created from user-specified filter
+ * definitions. It normalizes those definitions and contains methods for
+ * validating and applying client-provided filter conditions.
+ */
+export class ConcreteFilterDefinition {
+	/**
+	 * The name of the field, as provided by clients.
+	 */
+	field: string;
+
+	/**
+	 * The column to filter.
+	 */
+	column: string;
+
+	/**
+	 * The type of the column, for validation purposes.
+	 */
+	columnType: ColumnType;
+
+	/**
+	 * The operators clients may use for this field.
+	 */
+	operators: FilterOperator[];
+
+	/**
+	 * The allowed values of the column, if it is an enum column.
+	 */
+	values?: any[];
+
+	/**
+	 * The custom validation function, if any was specified.
+	 */
+	validate?: ValidationFunction;
+
+	/**
+	 * Creates a ConcreteFilterDefinition.
+	 * @param field - The name of the field.
+	 * @param definition - The user-specified filter definition, or just a
+	 *   column name.
+	 */
+	constructor(field: string, definition: FilterDefinition|string) {
+		// Normalize shortcut definitions.
+		if (_.isString(definition)) definition = {column: definition};
+
+		// Assign definition properties with defaults.
+		this.field = field;
+		_.defaults(this, definition, {
+			column: field,
+			columnType: ColumnType.String,
+			operators: [FilterOperator.Equal],
+		});
+
+		// Validate the instance.
+		Column.validate(this.column);
+		if (!Object.values(ColumnType).includes(this.columnType)) {
+			throw new ConfigurationError(
+				`Unknown column type '${this.columnType}'`,
+			);
+		}
+		if (this.columnType === ColumnType.Enum && _.isEmpty(this.values)) {
+			throw new ConfigurationError(
+				"Enum columns require a list of values",
+				{info: {field, values: this.values}},
+			);
+		}
+		for (const operator of this.operators) {
+			if (!Object.values(FilterOperator).includes(operator)) {
+				throw new ConfigurationError(
+					`Unknown filter operator '${operator}'`,
+					{info: {field}},
+				);
+			}
+		}
+	}
+
+	/**
+	 * Creates filter conditions for this field from a client-provided value.
+	 *
+	 * @remarks
+	 * The value may be a plain object mapping operators to their values, like
+	 * `{ gte: 1, lt: 5 }`, or any other value as a shortcut for 'eq'. Each
+	 * condition is validated, and an InvalidFilterError will be thrown if any
+	 * problems are found.
+	 *
+	 * Conditions are returned ordered by operator, so that they can be
+	 * fingerprinted consistently.
+	 *
+	 * @param value - The client-provided value.
+	 * @returns The created conditions.
+	 */
+	createConditions(value: any): FilterCondition[] {
+		const pairs = _.isPlainObject(value) ?
+			_.sortBy(_.toPairs(value), 0) :
+			_.toPairs({[FilterOperator.Equal]: value});
+		return pairs.map(([key, operand]) => {
+			const operator = this.validateOperator(key);
+			return {
+				definition: this,
+				operator,
+				value: this.validateOperand(operator, operand),
+			};
+		});
+	}
+
+	/**
+	 * Converts a client-provided value parsed from a query string to the types
+	 * expected by this field.
+	 *
+	 * @remarks
+	 * Query strings can only contain strings, so numeric strings are converted
+	 * to numbers for integer and float columns, and 'true' or 'false' to
+	 * booleans for boolean columns and 'isNull' conditions. Values for 'in'
+	 * conditions may also be comma-separated strings.
+	 *
+	 * Anything that can't be converted is returned unchanged, to be rejected
+	 * by validation later if necessary. Unknown operators are left alone for
+	 * the same reason.
+	 *
+	 * @param value - The client-provided value.
+	 * @returns The converted value.
+	 */
+	coerce(value: any): any {
+		if (!_.isPlainObject(value)) {
+			return this.coerceOperand(FilterOperator.Equal, value);
+		}
+		return _.mapValues(
+			value,
+			(operand, operator) => this.coerceOperand(operator, operand),
+		);
+	}
+
+	/**
+	 * Converts the value for a single filter condition parsed from a query
+	 * string, as described in `#coerce`.
+	 * @param operator - The condition's operator.
+	 * @param value - The condition's value.
+	 * @returns The converted value.
+	 */
+	coerceOperand(operator: string, value: any): any {
+		switch (operator) {
+			case FilterOperator.In: {
+				const items = _.isString(value) ? value.split(",") : value;
+				if (!_.isArray(items)) return value;
+				return items.map(item => this.coerceValue(item));
+			}
+			case FilterOperator.Like:
+				return value;
+			case FilterOperator.IsNull:
+				return coerceBoolean(value);
+			default:
+				return this.coerceValue(value);
+		}
+	}
+
+	/**
+	 * Converts a single filter value parsed from a query string to the column
+	 * type, if possible.
+	 * @param value - The value to convert.
+	 * @returns The converted value.
+	 */
+	coerceValue(value: any): any {
+		switch (this.columnType) {
+			case ColumnType.Integer:
+			case ColumnType.Float:
+				return _.isString(value) && numberPattern.test(value) ?
+					Number(value) :
+					value;
+			case ColumnType.Boolean:
+				return coerceBoolean(value);
+			default:
+				return value;
+		}
+	}
+
+	/**
+	 * Checks that a client-provided operator is allowed for this field.
+	 * @param operator - The operator to check.
+	 * @returns The unmutated operator.
+	 */
+	validateOperator(operator: string): FilterOperator {
+		if (this.operators.includes(operator as FilterOperator)) {
+			return operator as FilterOperator;
+		}
+		throw new InvalidFilterError(
+			`Unsupported filter operator '${operator}' for field '${this.field}'`,
+			{info: {field: this.field, operator}},
+		);
+	}
+
+	/**
+	 * Validates the value for a single filter condition.
+	 *
+	 * @remarks
+	 * 'in' conditions require a non-empty array of values, 'like' conditions
+	 * require a string pattern, and 'isNull' conditions require a boolean.
+	 * Everything else must match the column type.
+	 *
+	 * @param operator - The condition's operator.
+	 * @param value - The condition's value.
+	 * @returns The unmutated value.
+	 */
+	validateOperand(operator: FilterOperator, value: any): any {
+		switch (operator) {
+			case FilterOperator.In:
+				if (!_.isArray(value) || _.isEmpty(value)) {
+					throw new InvalidFilterError(
+						"Filter value for 'in' must be a non-empty array",
+						{info: {field: this.field, operator, value}},
+					);
+				}
+				for (const item of value) this.validateValue(operator, item);
+				return value;
+			case FilterOperator.Like:
+				return this.validateType(operator, value, _.isString(value));
+			case FilterOperator.IsNull:
+				return this.validateType(operator, value, _.isBoolean(value));
+			default:
+				return this.validateValue(operator, value);
+		}
+	}
+
+	/**
+	 * Validates a single filter value against the column type, as well as the
+	 * custom validation function, if any.
+	 * @param operator - The condition's operator.
+	 * @param value - The value to validate.
+	 * @returns The unmutated value.
+	 */
+	validateValue(operator: FilterOperator, value: any): any {
+		this.validateType(operator, value, this.checkValue(value));
+
+		const validateResult = this.validate ? this.validate(value) : true;
+		if (validateResult === true) return value;
+		throw new InvalidFilterError(
+			_.isString(validateResult) ? validateResult : "Invalid filter value",
+			{info: {field: this.field, operator, value}},
+		);
+	}
+
+	/**
+	 * Checks if a filter value matches the column type.
+	 *
+	 * @remarks
+	 * Unlike cursor values, date filter values may not be integers. Integers
+	 * stand for epoch microseconds only in cursors, and would otherwise be sent
+	 * to the database as-is, where they couldn't be meaningfully compared.
+	 *
+	 * @param value - The value to check.
+	 * @returns `true` if the value matches, `false` otherwise.
+	 */
+	checkValue(value: any): boolean {
+		if (this.columnType === ColumnType.Date && _.isNumber(value)) {
+			return false;
+		}
+		return checkColumnValue(value, this.columnType, this.values);
+	}
+
+	/**
+	 * Throws if a filter value failed a type check.
+	 * @param operator - The condition's operator.
+	 * @param value - The checked value.
+	 * @param matches - The result of the type check.
+	 * @returns The unmutated value.
+	 */
+	validateType(operator: FilterOperator, value: any, matches: boolean): any {
+		if (matches) return value;
+		throw new InvalidFilterError(
+			"Filter value does not match its type",
+			{info: {field: this.field, operator, value}},
+		);
+	}
+
+	/**
+	 * Applies a validated filter condition to the provided query builder.
+	 *
+	 * @remarks
+	 * Values are sent to the database unchanged. Timestamps in particular are
+	 * bound as strings, just as they are when consumed from cursors.
+	 *
+	 * This method mutates the provided query builder.
+	 *
+	 * @param qry - The query builder to mutate.
+	 * @param operator - The condition's operator.
+	 * @param value - The condition's value.
+	 */
+	apply(qry: QueryBuilder<Model>, operator: FilterOperator, value: any): void {
+		const {column} = this;
+		switch (operator) {
+			case FilterOperator.Equal:
+				qry.where(column, value);
+				break;
+			case FilterOperator.In:
+				qry.whereIn(column, value);
+				break;
+			case FilterOperator.IsNull:
+				if (value) qry.whereNull(column);
+				else qry.whereNotNull(column);
+				break;
+			default:
+				qry.where(column, comparisonOperators[operator] as string, value);
+		}
+	}
+}
+
+/**
+ * Converts a boolean string parsed from a query string to a boolean.
+ * @param value - The value to convert.
+ * @returns The converted value, or the unchanged value if it is not a boolean
+ *   string.
+ */
+function coerceBoolean(value: any): any {
+	return _.isString(value) && _.has(booleanStrings, value) ?
+		booleanStrings[value] :
+		value;
+}
@@ -1,11 +1,31 @@
 import {ColumnType, SortDescriptor, SortDirection, ValidationFunction} from "./sort-descriptor.js";
-import {Model, QueryBuilder} from "objection";
+import {Model, QueryBuilder, RawBuilder, raw} from "objection";
 import {ValidationCase, getErrorClass} from "./get-error-class.js";
 import _ from "lodash";
 import {Column} from "./column.js";
+import {checkColumnValue} from "./check-column-value.js";
 import {ConfigurationError} from "./configuration-error.js";
+import {JsonPath} from "./json-path.js";
 import objectPath from "object-path";
 
+/**
+ * Sort directions which sort non-null values in descending order.
+ */
+const descendingDirections = [
+	SortDirection.Descending,
+	SortDirection.DescendingNullsFirst,
+	SortDirection.DescendingNullsLast,
+];
+
+/**
+ * Sort directions which place nulls after all non-null values.
+ */
+const nullsLastDirections = [
+	SortDirection.Ascending,
+	SortDirection.AscendingNullsLast,
+	SortDirection.DescendingNullsLast,
+];
+
 /**
  * Represents a single sort descriptor in a user-specified sort.
  *
@@ -16,9 +36,24 @@ import objectPath from "object-path";
  */
 export class ConcreteSortDescriptor {
 	/**
-	 * The column name to sort by.
+	 * The column name to sort by, if sorting by a column.
+	 */
+	column?: string;
+
+	/**
+	 * The parsed JSON reference, if the column is a path within a JSON column.
+	 */
+	jsonPath?: JsonPath;
+
+	/**
+	 * The raw SQL expression to sort by, if sorting by an expression.
 	 */
-	column: string;
+	expression?: string;
+
+	/**
+	 * Bindings for the raw SQL expression, if any.
+	 */
+	bindings?: any[];
 
 	/**
 	 * The type of the column, for validation purposes.
@@ -40,11 +75,26 @@ export class ConcreteSortDescriptor {
 	 */
 	valuePath: string;
 
+	/**
+	 * The allowed values of the column, if it is an enum column.
+	 */
+	values?: any[];
+
 	/**
 	 * The custom validation function, if any was specified.
 	 */
 	validate?: ValidationFunction;
 
+	/**
+	 * Indicates whether the descriptor has been reversed.
+	 *
+	 * @remarks
+	 * Reversed descriptors are used to fetch pages in the opposite direction of
+	 * the sort. Everything about their ordering is flipped, including the
+	 * placement of nulls.
+	 */
+	reversed = false;
+
 	/**
 	 * Creates a ConcreteSortDescriptor.
 	 * @param descriptor - The user-specified sort descriptor.
@@ -53,21 +103,52 @@ export class ConcreteSortDescriptor {
 		// Normalize shortcut descriptors.
 		if (_.isString(descriptor)) descriptor = {column: descriptor};
 
+		// Parse JSON references, which need their own default value path.
+		const {column} = descriptor;
+		if (_.isString(column) && JsonPath.isJsonPath(column)) {
+			this.jsonPath = JsonPath.parse(column);
+		}
+
 		// Assign descriptor properties with defaults.
 		_.defaults(this, descriptor, {
 			columnType: ColumnType.String,
 			nullable: false,
 			direction: SortDirection.Ascending,
-			valuePath: descriptor.column,
+			valuePath: this.jsonPath ? this.jsonPath.getValuePath() : column,
 		});
 
 		// Validate the instance.
-		Column.validate(this.column);
+		if (this.expression === undefined) {
+			if (!_.isString(this.column)) {
+				throw new ConfigurationError(
+					"Sort descriptors require a column or an expression",
+				);
+			}
+			Column.validate(this.jsonPath ? this.jsonPath.column : this.column);
+		} else {
+			if (this.column !== undefined) {
+				throw new ConfigurationError(
+					"Sort descriptors cannot have both a column and an expression",
+				);
+			}
+			if (!_.isString(this.valuePath)) {
+				throw new ConfigurationError(
+					"Sort expressions require a valuePath",
+					{info: {expression: this.expression}},
+				);
+			}
+		}
 		if (!Object.values(ColumnType).includes(this.columnType)) {
 			throw new ConfigurationError(
 				`Unknown column type '${this.columnType}'`,
 			);
 		}
+		if (this.columnType === ColumnType.Enum && _.isEmpty(this.values)) {
+			throw new ConfigurationError(
+				"Enum columns require a list of values",
+				{info: {values: this.values}},
+			);
+		}
 		if (!Object.values(SortDirection).includes(this.direction)) {
 			throw new ConfigurationError(
 				`Unknown sort direction '${this.direction}'`,
@@ -79,29 +160,53 @@ export class ConcreteSortDescriptor {
 	 * Normalized sort order for non-null ORDER BY terms.
 	 */
 	get order(): "asc"|"desc" {
-		const {direction} = this;
-		if (direction === SortDirection.DescendingNullsLast) {
-			return SortDirection.Descending;
-		}
-		return direction;
+		const descending = descendingDirections.includes(this.direction);
+		return descending === this.reversed ? "asc" : "desc";
+	}
+
+	/**
+	 * Indicates whether nulls occur after all non-null values in the sort.
+	 */
+	get nullsLast(): boolean {
+		const nullsLast = nullsLastDirections.includes(this.direction);
+		return nullsLast !== this.reversed;
 	}
 
 	/**
 	 * Normalized sort order for `is null` ORDER BY terms.
 	 */
 	get nullOrder(): "asc"|"desc" {
-		const {direction} = this;
-		if (direction === SortDirection.DescendingNullsLast) {
-			return SortDirection.Ascending;
-		}
-		return direction;
+		return this.nullsLast ? "asc" : "desc";
 	}
 
 	/**
 	 * The inequality operator to use in a cursor filter for this column.
 	 */
 	get operator(): ">"|"<" {
-		return this.direction === SortDirection.Ascending ? ">" : "<";
+		return this.order === "asc" ? ">" : "<";
+	}
+
+	/**
+	 * Creates a copy of the descriptor with its sort order reversed.
+	 * @returns The reversed descriptor.
+	 */
+	reverse(): ConcreteSortDescriptor {
+		const descriptor = new ConcreteSortDescriptor(this);
+		descriptor.reversed = !this.reversed;
+		return descriptor;
+	}
+
+	/**
+	 * Creates a copy of the descriptor with a different sort direction.
+	 * @param direction - The direction of the copy.
+	 * @returns The copied descriptor, or this descriptor if the direction is
+	 *   already the same.
+	 */
+	withDirection(direction: SortDirection): ConcreteSortDescriptor {
+		if (direction === this.direction) return this;
+		const descriptor = new ConcreteSortDescriptor(this);
+		descriptor.direction = direction;
+		return descriptor;
 	}
 
 	/**
@@ -115,20 +220,7 @@ export class ConcreteSortDescriptor {
 	 * @returns `true` if the value matches, `false` otherwise.
 	 */
 	checkCursorValue(value: any): boolean {
-		switch (this.columnType) {
-			case ColumnType.String:
-				return _.isString(value);
-			case ColumnType.Integer:
-				return _.isInteger(value);
-			case ColumnType.Float:
-				return _.isFinite(value);
-			case ColumnType.Boolean:
-				return _.isBoolean(value);
-			case ColumnType.Date:
-				return value instanceof Date || _.isString(value);
-			default:
-				return false;
-		}
+		return checkColumnValue(value, this.columnType, this.values);
 	}
 
 	/**
@@ -142,11 +234,21 @@ export class ConcreteSortDescriptor {
 	 * while the other indicates a cursor that was tampered with or transmitted
 	 * incorrectly.
 	 *
+	 * The column type is checked against the value in the form in which it is
+	 * stored in cursors, but the custom validation function may be given the
+	 * value in another form. See `#getCursorValue` and `#parseCursorValue`.
+	 *
 	 * @param value - The value to validate.
 	 * @param validationCase - Indicates which error to throw on failure.
+	 * @param customValue - The value to provide to the custom validation
+	 *   function, if it differs from the value being validated.
 	 * @returns The unmutated value.
 	 */
-	validateCursorValue(value: any, validationCase: ValidationCase): any {
+	validateCursorValue(
+		value: any,
+		validationCase: ValidationCase,
+		customValue: any = value,
+	): any {
 		if (value === null) {
 			if (!this.nullable) {
 				throw new (getErrorClass(validationCase))(
@@ -161,7 +263,7 @@ export class ConcreteSortDescriptor {
 			);
 		}
 
-		const validateResult = this.validate ? this.validate(value) : true;
+		const validateResult = this.validate ? this.validate(customValue) : true;
 		let isValid: boolean;
 		let msg: string | undefined;
 		if (_.isString(validateResult)) {
@@ -176,13 +278,64 @@ export class ConcreteSortDescriptor {
 		throw new (getErrorClass(validationCase))(msg, {info: {value}});
 	}
 
+	/**
+	 * Converts a value fetched from the database to the form in which it will
+	 * be stored in cursors.
+	 *
+	 * @remarks
+	 * Bigints and decimals are stored as strings to avoid losing precision.
+	 * Timestamps fetched as JS date instances are stored as ISO-8601 strings,
+	 * while timestamp strings are stored exactly as they were fetched.
+	 *
+	 * Dates are stored as integer microseconds since the epoch, which keeps
+	 * them distinct from date strings so that they can be turned back into JS
+	 * date instances when the cursor is consumed. Numbers are assumed to be
+	 * milliseconds since the epoch, as that is how some drivers-- notably
+	 * sqlite3-- store JS date instances. Date strings are left alone, since
+	 * there's no telling what format the database expects them in. This also
+	 * keeps any precision beyond milliseconds, which JS date instances can't
+	 * represent.
+	 *
+	 * Values already in their stored form, or which can't be converted, are
+	 * returned unchanged, to be rejected by validation if necessary.
+	 *
+	 * @param value - The value to convert.
+	 * @returns The converted value.
+	 */
+	normalizeCursorValue(value: any): any {
+		switch (this.columnType) {
+			case ColumnType.BigInt:
+				if (typeof value === "bigint" || _.isSafeInteger(value)) {
+					return String(value);
+				}
+				return value;
+			case ColumnType.Id:
+				return typeof value === "bigint" ? String(value) : value;
+			case ColumnType.Decimal:
+				return _.isFinite(value) ? String(value) : value;
+			case ColumnType.Date:
+				if (value instanceof Date && !_.isNaN(value.getTime())) {
+					return value.getTime() * 1000;
+				}
+				return _.isSafeInteger(value) ? value * 1000 : value;
+			case ColumnType.Timestamp:
+				if (value instanceof Date && !_.isNaN(value.getTime())) {
+					return value.toISOString();
+				}
+				return value;
+			default:
+				return value;
+		}
+	}
+
 	/**
 	 * Gets the cursor value for this descriptor from the provided entity.
 	 *
 	 * @remarks
-	 * This method also validates the value while fetching it. It is used during
-	 * cursor creation only, so validation errors thrown here will be
-	 * ConfigurationErrors.
+	 * This method also normalizes and validates the value while fetching it.
+	 * It is used during cursor creation only, so validation errors thrown here
+	 * will be ConfigurationErrors. The custom validation function, if any, is
+	 * given the value as it was fetched, before normalization.
 	 *
 	 * @param entity - The entity from which to fetch the value.
 	 * @returns The fetched cursor value, or null if none was found.
@@ -190,7 +343,83 @@ export class ConcreteSortDescriptor {
 	getCursorValue(entity: object): any {
 		let value = objectPath.get(entity, this.valuePath);
 		if (value === undefined) value = null;
-		return this.validateCursorValue(value, ValidationCase.Configuration);
+		return this.validateCursorValue(
+			this.normalizeCursorValue(value),
+			ValidationCase.Configuration,
+			value,
+		);
+	}
+
+	/**
+	 * Converts a value from a cursor to the form in which it will be sent to
+	 * the database.
+	 *
+	 * @remarks
+	 * This is the inverse of `#getCursorValue`. It validates the value, and
+	 * since it is used during cursor consumption, validation errors thrown
+	 * here will be InvalidCursorErrors.
+	 *
+	 * Dates stored as epoch microseconds are converted back into JS date
+	 * instances. This way the driver will bind them exactly as it did when they
+	 * were written. All other values, including timestamps, are returned
+	 * unchanged. Timestamps are bound as strings so that the database can parse
+	 * them with all of their precision intact.
+	 *
+	 * The custom validation function, if any, is given the converted value, so
+	 * dates stored as epoch microseconds reach it as date instances, just as
+	 * they did when the cursor was created.
+	 *
+	 * @param value - The cursor value.
+	 * @returns The value to send to the database.
+	 */
+	parseCursorValue(value: any): any {
+		let parsedValue = value;
+		if (this.columnType === ColumnType.Date && _.isNumber(value)) {
+			parsedValue = new Date(value / 1000);
+		}
+		this.validateCursorValue(value, ValidationCase.Cursor, parsedValue);
+		return parsedValue;
+	}
+
+	/**
+	 * Gets the raw SQL expression to sort by, along with its bindings.
+	 *
+	 * @remarks
+	 * For JSON references, the expression depends on the database, which is
+	 * determined from the provided query builder.
+	 *
+	 * @param qry - The query builder the expression is for.
+	 * @returns The expression and its bindings, or undefined if sorting by a
+	 *   plain column.
+	 */
+	getExpression(qry: QueryBuilder<Model>): [string, any[]]|undefined {
+		const {jsonPath, expression, bindings = []} = this;
+		if (jsonPath) return jsonPath.toSql(qry, this.columnType);
+		if (expression !== undefined) return [expression, bindings];
+		return undefined;
+	}
+
+	/**
+	 * Gets a reference to the descriptor's column or expression, which can be
+	 * provided to Objection query builder methods in place of a column name.
+	 * @param qry - The query builder the reference is for.
+	 * @returns The column name, or a raw builder for the expression.
+	 */
+	getColumnRef(qry: QueryBuilder<Model>): string|RawBuilder {
+		const expression = this.getExpression(qry);
+		if (expression) return raw(...expression);
+		return this.column as string;
+	}
+
+	/**
+	 * Gets a value which identifies the descriptor's column or expression, for
+	 * use in sort configuration fingerprints.
+	 * @returns The column name, or the expression along with its bindings.
+	 */
+	getColumnIdentity(): string|[string, any[]] {
+		const {column, expression, bindings = []} = this;
+		if (expression !== undefined) return [expression, bindings];
+		return column as string;
 	}
 
 	/**
@@ -209,10 +438,18 @@ export class ConcreteSortDescriptor {
 	 * This method does not change or invoke the provided query builder at all,
 	 * instead cloning it and doing its operations on the clone.
 	 *
+	 * If the descriptor has an expression instead of a column, the expression
+	 * is returned in parentheses with its bindings interpolated by Knex. Any
+	 * identifier bindings (`??`) in the expression will have mappers applied
+	 * to them by Knex itself. The same goes for JSON references, which are
+	 * converted to expressions for the query's database.
+	 *
 	 * @param qry - The query builder that may contain the needed mappers.
 	 * @returns The raw column identifier.
 	 */
 	getRawColumn(qry: QueryBuilder<Model>): string {
-		return Column.toRaw(this.column, qry);
+		const expression = this.getExpression(qry);
+		if (!expression) return Column.toRaw(this.column as string, qry);
+		return `(${qry.knex().raw(...expression).toQuery()})`;
 	}
 }
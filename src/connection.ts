@@ -0,0 +1,245 @@
+import {If, PaginatorConstructor} from "./paginator.js";
+import {CountMode} from "./count-mode.js";
+import {InvalidConnectionArgsError} from "./invalid-connection-args-error.js";
+import {Model} from "objection";
+import _ from "lodash";
+
+/**
+ * The standard arguments of a Relay-style connection field.
+ *
+ * @remarks
+ * Nulls are accepted everywhere, since GraphQL servers will often provide them
+ * for arguments the client did not specify.
+ */
+export interface ConnectionArgs {
+	/**
+	 * The number of edges to fetch after the `after` cursor.
+	 */
+	first?: number|null;
+
+	/**
+	 * The cursor to fetch edges after, if any.
+	 */
+	after?: string|null;
+
+	/**
+	 * The number of edges to fetch before the `before` cursor.
+	 */
+	last?: number|null;
+
+	/**
+	 * The cursor to fetch edges before, if any.
+	 */
+	before?: string|null;
+}
+
+/**
+ * Options provided to the `getConnection` function.
+ */
+export interface ConnectionOptions extends ConnectionArgs {
+	/**
+	 * The name of the sort to use, as defined in the static sorts property.
+	 * Defaults to 'default'.
+	 */
+	sort?: string;
+
+	/**
+	 * A client-provided filter object, mapping filterable fields to values.
+	 * See the static filters property of the Paginator for more information.
+	 */
+	filter?: Record<string, any>;
+
+	/**
+	 * Determines how items remaining after the connection are counted.
+	 * Defaults to 'none'.
+	 *
+	 * @remarks
+	 * Connections only need to know whether there are more edges, which the
+	 * Paginator can tell without a count query. Only change this if your
+	 * Paginator relies on the remaining count itself.
+	 */
+	count?: CountMode;
+}
+
+/**
+ * A single edge in a Relay-style connection.
+ */
+export interface Edge<T extends Model> {
+	/**
+	 * The model instance at the end of the edge.
+	 */
+	node: T;
+
+	/**
+	 * The cursor string for resuming pagination from this edge.
+	 */
+	cursor: string;
+}
+
+/**
+ * Describes the position of a Relay-style connection within the full result
+ * set.
+ */
+export interface PageInfo {
+	/**
+	 * Indicates whether there are more edges after this connection.
+	 *
+	 * @remarks
+	 * This is only checked when paginating forward. When paginating backward,
+	 * it will always be false, as allowed by the Relay specification.
+	 */
+	hasNextPage: boolean;
+
+	/**
+	 * Indicates whether there are more edges before this connection.
+	 *
+	 * @remarks
+	 * This is only checked when paginating backward. When paginating forward,
+	 * it will always be false, as allowed by the Relay specification.
+	 */
+	hasPreviousPage: boolean;
+
+	/**
+	 * The cursor of the first edge, or null if there are no edges.
+	 */
+	startCursor: string|null;
+
+	/**
+	 * The cursor of the last edge, or null if there are no edges.
+	 */
+	endCursor: string|null;
+}
+
+/**
+ * Represents the result of a paginated query in the shape of a Relay-style
+ * connection.
+ */
+export interface Connection<T extends Model> {
+	/**
+	 * The edges of the connection, in sort order.
+	 */
+	edges: Edge<T>[];
+
+	/**
+	 * Information about the position of the connection.
+	 */
+	pageInfo: PageInfo;
+}
+
+/**
+ * Fetches a page from a Paginator subtype in the shape of a Relay-style
+ * connection.
+ *
+ * @remarks
+ * The `first` and `after` args will fetch forward in the sort, while the `last`
+ * and `before` args will fetch backward. These two sets of args cannot be
+ * combined, and an InvalidConnectionArgsError will be thrown if they are.
+ *
+ * If neither `first` nor `last` is provided, the limit will default to that of
+ * the Paginator itself. If either is zero, an empty connection is returned
+ * without querying the database, as the Relay specification allows.
+ *
+ * Unlike `::getPage`, this does not count the remaining items by default,
+ * since the connection has no place for the count.
+ *
+ * @param PaginatorType - The Paginator subtype to execute.
+ * @param options - The connection args, along with optional sort, filter,
+ *   and count options.
+ * @param rest - Remaining parameters. Will include the paginator args, if
+ *   any.
+ * @returns The fetched connection.
+ */
+export async function getConnection<TModel extends Model, TArgs = undefined>(
+	PaginatorType: PaginatorConstructor<TModel, TArgs>,
+	options: ConnectionOptions = {},
+	...rest: If<TArgs>
+): Promise<Connection<TModel>> {
+	const {
+		first,
+		after,
+		last,
+		before,
+		sort,
+		filter,
+		count = CountMode.None,
+	} = options;
+	const backward = isBackward(options);
+	const limit = backward ?
+		validateCount("last", last) :
+		validateCount("first", first);
+	if (limit === 0) return createEmptyConnection();
+	const instance = new PaginatorType(
+		{limit, sort, itemCursors: true, filter, count},
+		...rest,
+	);
+	const page = await instance.execute(backward ? before : after, backward);
+	const {items, itemCursors = []} = page;
+	const edges = items.map((node, i) => ({node, cursor: itemCursors[i]}));
+	const hasEdges = !_.isEmpty(edges);
+
+	return {
+		edges,
+		pageInfo: {
+			hasNextPage: !backward && page.hasMore,
+			hasPreviousPage: backward && page.hasMore,
+			startCursor: hasEdges ? page.startCursor : null,
+			endCursor: hasEdges ? page.endCursor : null,
+		},
+	};
+}
+
+/**
+ * Creates a connection with no edges.
+ * @returns The empty connection.
+ */
+function createEmptyConnection<TModel extends Model>(): Connection<TModel> {
+	return {
+		edges: [],
+		pageInfo: {
+			hasNextPage: false,
+			hasPreviousPage: false,
+			startCursor: null,
+			endCursor: null,
+		},
+	};
+}
+
+/**
+ * Determines the direction of a connection from its args.
+ *
+ * @remarks
+ * This function will throw if forward and backward args are combined.
+ *
+ * @param args - The connection args.
+ * @returns `true` if the connection should be fetched backward, `false`
+ *   otherwise.
+ */
+function isBackward(args: ConnectionArgs): boolean {
+	const forward = !_.isNil(args.first) || !_.isNil(args.after);
+	const backward = !_.isNil(args.last) || !_.isNil(args.before);
+	if (forward && backward) {
+		throw new InvalidConnectionArgsError(
+			"Forward and backward connection args cannot be combined",
+			{info: {args}},
+		);
+	}
+	return backward;
+}
+
+/**
+ * Validates the `first` or `last` connection arg.
+ * @param name - The name of the arg, for error messages.
+ * @param value - The value of the arg, if any.
+ * @returns The value as a limit, or undefined if there is none.
+ */
+function validateCount(
+	name: string,
+	value?: number|null,
+): number|undefined {
+	if (_.isNil(value)) return undefined;
+	if (_.isInteger(value) && value >= 0) return value;
+	throw new InvalidConnectionArgsError(
+		`Connection arg '${name}' must be a non-negative integer`,
+		{info: {[name]: value}},
+	);
+}
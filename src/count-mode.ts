@@ -0,0 +1,23 @@
+/**
+ * Used to specify how a Paginator counts the items remaining after a page.
+ */
+export enum CountMode {
+	/**
+	 * Indicates that remaining items should be counted exactly, with a second
+	 * query whenever a full page is fetched.
+	 */
+	Exact = "exact",
+
+	/**
+	 * Indicates that remaining items should not be counted at all. The
+	 * Paginator will only determine whether there are more items, by fetching
+	 * one extra item with each page.
+	 */
+	None = "none",
+
+	/**
+	 * Indicates that remaining items should be estimated, using the
+	 * Paginator's `#estimateCount` method.
+	 */
+	Estimate = "estimate",
+}
@@ -0,0 +1,61 @@
+import {SortDirection, SortableColumn} from "./sort-descriptor.js";
+import {ConcreteSortDescriptor} from "./concrete-sort-descriptor.js";
+import {SortNode} from "./sort-node.js";
+import {UnknownSortError} from "./unknown-sort-error.js";
+import _ from "lodash";
+import {appendTiebreaker} from "./append-tiebreaker.js";
+
+/**
+ * An internal function that creates a SortNode from a client-specified sort
+ * spec, such as `-score,firstName`.
+ *
+ * @remarks
+ * Each comma-separated name in the spec must be a key in the provided sortable
+ * columns, optionally prefixed with `-` to sort that column in descending
+ * order. If any name is missing, unknown, or repeated, this function will
+ * throw an UnknownSortError.
+ *
+ * The tiebreaker is appended to the end of the sort, unless the spec already
+ * ends with it.
+ *
+ * @param spec - The client-specified sort spec.
+ * @param columns - The map from names to sortable columns.
+ * @param tiebreaker - Concrete sort descriptors for unique columns to sort by
+ *   last.
+ * @returns The created SortNode.
+ */
+export function createDynamicSortNode(
+	spec: string,
+	columns: Record<string, SortableColumn|string>,
+	tiebreaker: ConcreteSortDescriptor[],
+): SortNode {
+	const names: string[] = [];
+	const descriptors = spec.split(",").map(term => {
+		term = term.trim();
+		const descending = term.startsWith("-");
+		const name = descending ? term.slice(1) : term;
+		if (!_.has(columns, name)) {
+			throw new UnknownSortError(
+				`Unknown sort column '${name}'`,
+				{info: {sort: spec, column: name}},
+			);
+		}
+		if (names.includes(name)) {
+			throw new UnknownSortError(
+				`Duplicate sort column '${name}'`,
+				{info: {sort: spec, column: name}},
+			);
+		}
+		names.push(name);
+
+		const column = columns[name];
+		return new ConcreteSortDescriptor({
+			..._.isString(column) ? {column} : column,
+			direction: descending ?
+				SortDirection.Descending :
+				SortDirection.Ascending,
+		});
+	});
+
+	return new SortNode(appendTiebreaker(descriptors, tiebreaker));
+}
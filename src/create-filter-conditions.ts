@@ -0,0 +1,41 @@
+import {ConcreteFilterDefinition, FilterCondition} from "./concrete-filter-definition.js";
+import {InvalidFilterError} from "./invalid-filter-error.js";
+import _ from "lodash";
+
+/**
+ * An internal function that validates a client-provided filter object and
+ * converts it into a list of filter conditions.
+ *
+ * @remarks
+ * Each key of the filter must be a field in the provided definitions. Fields
+ * are processed in alphabetical order, so that equivalent filters always
+ * produce the same conditions in the same order. If any problems are found,
+ * this function will throw an InvalidFilterError.
+ *
+ * @param filter - The client-provided filter, if any.
+ * @param definitions - The map from field names to filter definitions.
+ * @returns The created conditions.
+ */
+export function createFilterConditions(
+	filter: unknown,
+	definitions: Record<string, ConcreteFilterDefinition>,
+): FilterCondition[] {
+	if (_.isNil(filter)) return [];
+	if (!_.isPlainObject(filter)) {
+		throw new InvalidFilterError(
+			"Filter is not an object",
+			{info: {filter}},
+		);
+	}
+
+	const obj = filter as Record<string, unknown>;
+	return _.flatMap(_.keys(obj).sort(), field => {
+		if (!_.has(definitions, field)) {
+			throw new InvalidFilterError(
+				`Unknown filter field '${field}'`,
+				{info: {field}},
+			);
+		}
+		return definitions[field].createConditions(obj[field]);
+	});
+}
@@ -0,0 +1,38 @@
+import {createHash} from "crypto";
+import {encodeBase64Url} from "./encode-base64url.js";
+import _ from "lodash";
+
+/**
+ * An internal function that creates a short, stable hash of a JSON-compatible
+ * value.
+ *
+ * @remarks
+ * Object keys are sorted before hashing, so objects with the same properties
+ * will always produce the same fingerprint, regardless of the order in which
+ * those properties were assigned.
+ *
+ * Fingerprints are stored in cursors, so they are truncated to keep cursors
+ * small. They are meant to detect mistakes, not to resist attackers.
+ *
+ * @param value - The value to fingerprint.
+ * @returns The fingerprint.
+ */
+export function createFingerprint(value: unknown): string {
+	const json = JSON.stringify(normalize(value));
+	const digest = createHash("sha256").update(json).digest();
+	return encodeBase64Url(digest.slice(0, 8));
+}
+
+/**
+ * Recursively sorts the keys of any plain objects within a value.
+ * @param value - The value to normalize.
+ * @returns The normalized copy of the value.
+ */
+function normalize(value: unknown): unknown {
+	if (_.isArray(value)) return value.map(normalize);
+	if (!_.isPlainObject(value)) return value;
+	const obj = value as Record<string, unknown>;
+	const result: Record<string, unknown> = {};
+	for (const key of _.keys(obj).sort()) result[key] = normalize(obj[key]);
+	return result;
+}
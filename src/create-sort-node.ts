@@ -1,14 +1,21 @@
 import {ConcreteSortDescriptor} from "./concrete-sort-descriptor.js";
 import {SortDescriptor} from "./sort-descriptor.js";
 import {SortNode} from "./sort-node.js";
+import {appendTiebreaker} from "./append-tiebreaker.js";
 
 /**
  * An internal function that creates a SortNode from a user-specifed sort.
  * @param descriptors - The array of user-specified sort descriptors.
+ * @param tiebreaker - Concrete sort descriptors to append to the sort, unless
+ *   it already ends with them.
  * @returns The created SortNode.
  */
 export function createSortNode(
 	descriptors: (SortDescriptor|string)[],
+	tiebreaker: ConcreteSortDescriptor[] = [],
 ): SortNode {
-	return new SortNode(descriptors.map(d => new ConcreteSortDescriptor(d)));
+	return new SortNode(appendTiebreaker(
+		descriptors.map(d => new ConcreteSortDescriptor(d)),
+		tiebreaker,
+	));
 }
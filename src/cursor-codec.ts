@@ -0,0 +1,31 @@
+import {CursorObj} from "./cursor.js";
+
+/**
+ * An interface for objects which convert cursors to and from strings.
+ *
+ * @remarks
+ * Implement this interface if you need to control exactly how cursors are
+ * serialized. Set an instance as the static `cursorCodec` property of your
+ * Paginator subtypes to use it.
+ */
+export interface CursorCodec {
+	/**
+	 * Converts a cursor object to a string.
+	 * @param obj - The abbreviated cursor object.
+	 * @returns The encoded string.
+	 */
+	encode(obj: CursorObj): string;
+
+	/**
+	 * Converts a string back into a cursor object.
+	 *
+	 * @remarks
+	 * There is no need to validate the structure of the result, since this
+	 * will be done by the Paginator. If the string cannot be decoded at all,
+	 * however, this method should throw an InvalidCursorError.
+	 *
+	 * @param str - The encoded string.
+	 * @returns The decoded cursor object.
+	 */
+	decode(str: string): unknown;
+}
@@ -0,0 +1,110 @@
+import {createHmac, timingSafeEqual} from "crypto";
+import {ConfigurationError} from "./configuration-error.js";
+import {encodeBase64Url} from "./encode-base64url.js";
+import {InvalidCursorError} from "./invalid-cursor-error.js";
+import _ from "lodash";
+
+/**
+ * An internal class which signs serialized cursors and verifies their
+ * signatures.
+ *
+ * @remarks
+ * Signatures are HMAC-SHA256 digests, appended to the serialized cursor after
+ * a dot. Since cursors themselves are base64url-encoded, they will never
+ * contain a dot of their own.
+ *
+ * Multiple secrets are supported to allow for key rotation. The first secret
+ * is always used to sign new cursors, while any of them will be accepted when
+ * verifying.
+ */
+export class CursorSigner {
+	/**
+	 * The secrets used for signing and verification.
+	 */
+	secrets: string[];
+
+	/**
+	 * Creates a CursorSigner.
+	 * @param secrets - The secrets to use. The first will be used for signing,
+	 *   while all of them will be accepted for verification.
+	 */
+	constructor(secrets: string[]) {
+		if (_.isEmpty(secrets)) {
+			throw new ConfigurationError(
+				"At least one cursor secret is required",
+			);
+		}
+		this.secrets = secrets;
+	}
+
+	/**
+	 * Creates a base64url-encoded signature for a payload.
+	 * @param payload - The payload to sign.
+	 * @param secret - The secret to sign with.
+	 * @returns The signature.
+	 */
+	static createSignature(payload: string, secret: string): string {
+		return encodeBase64Url(
+			createHmac("sha256", secret).update(payload).digest(),
+		);
+	}
+
+	/**
+	 * Checks a signature against a payload in constant time.
+	 * @param payload - The signed payload.
+	 * @param signature - The signature to check.
+	 * @param secret - The secret to check with.
+	 * @returns `true` if the signature matches, `false` otherwise.
+	 */
+	static checkSignature(
+		payload: string,
+		signature: string,
+		secret: string,
+	): boolean {
+		const expected = Buffer.from(this.createSignature(payload, secret));
+		const actual = Buffer.from(signature);
+		if (actual.length !== expected.length) return false;
+		return timingSafeEqual(actual, expected);
+	}
+
+	/**
+	 * Signs a serialized cursor.
+	 * @param payload - The serialized cursor.
+	 * @returns The serialized cursor with its signature appended.
+	 */
+	sign(payload: string): string {
+		const [secret] = this.secrets;
+		return `${payload}.${CursorSigner.createSignature(payload, secret)}`;
+	}
+
+	/**
+	 * Verifies a signed cursor string and extracts its payload.
+	 *
+	 * @remarks
+	 * This method will throw an InvalidCursorError if the string is not signed,
+	 * or if its signature does not match any of the secrets.
+	 *
+	 * @param str - The signed cursor string.
+	 * @returns The serialized cursor, without its signature.
+	 */
+	verify(str: string): string {
+		const index = str.lastIndexOf(".");
+		if (index < 0) {
+			throw new InvalidCursorError(
+				"Cursor is not signed",
+				{info: {cursor: str}},
+			);
+		}
+
+		const payload = str.slice(0, index);
+		const signature = str.slice(index + 1);
+		const isValid = this.secrets.some(
+			secret => CursorSigner.checkSignature(payload, signature, secret),
+		);
+		if (isValid) return payload;
+		throw new InvalidCursorError(
+			"Cursor signature is invalid",
+			{info: {cursor: str}},
+		);
+	}
+}
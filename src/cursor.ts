@@ -1,7 +1,7 @@
-import {InvalidJsonError, decodeObject, encodeObject} from "@batterii/encode-object";
+import {CursorCodec} from "./cursor-codec.js";
+import {CursorSigner} from "./cursor-signer.js";
 import _ from "lodash";
 import {InvalidCursorError} from "./invalid-cursor-error.js";
-import {is} from "nani";
 
 /**
  * Describes the structure of cursor objects in transit.
@@ -24,6 +24,27 @@ export interface CursorObj {
 	 * The cursor values, if any.
 	 */
 	v?: any[];
+
+	/**
+	 * The fingerprint of the sort configuration, if any.
+	 */
+	f?: string;
+
+	/**
+	 * The fingerprint of the filter, if any.
+	 */
+	w?: string;
+
+	/**
+	 * The fingerprint of the Paginator's args, if any.
+	 */
+	a?: string;
+
+	/**
+	 * The time at which the cursor was issued, in milliseconds since the
+	 * epoch, if known.
+	 */
+	t?: number;
 }
 
 /**
@@ -49,6 +70,30 @@ export class Cursor {
 	 */
 	values?: any[];
 
+	/**
+	 * The fingerprint of the sort configuration that created the cursor, if
+	 * any.
+	 */
+	fingerprint?: string;
+
+	/**
+	 * The fingerprint of the filter that was applied when the cursor was
+	 * created, if any.
+	 */
+	filterFingerprint?: string;
+
+	/**
+	 * The fingerprint of the args that were provided to the Paginator when the
+	 * cursor was created, if any.
+	 */
+	argsFingerprint?: string;
+
+	/**
+	 * The time at which the cursor was issued, in milliseconds since the
+	 * epoch, if known.
+	 */
+	issuedAt?: number;
+
 	/**
 	 * Creates a Cursor.
 	 * @param query - The query name from the Paginator.
@@ -67,7 +112,12 @@ export class Cursor {
 	 * @returns The created Cursor.
 	 */
 	static fromObject(obj: CursorObj): Cursor {
-		return new Cursor(obj.q, obj.s, obj.v);
+		const cursor = new Cursor(obj.q, obj.s, obj.v);
+		cursor.fingerprint = obj.f;
+		cursor.filterFingerprint = obj.w;
+		cursor.argsFingerprint = obj.a;
+		cursor.issuedAt = obj.t;
+		return cursor;
 	}
 
 	/**
@@ -110,27 +160,56 @@ export class Cursor {
 			);
 		}
 
+		if (value.f !== undefined && !_.isString(value.f)) {
+			throw new InvalidCursorError(
+				"Cursor 'f' is not a string",
+				{info: {f: value.f}},
+			);
+		}
+
+		if (value.w !== undefined && !_.isString(value.w)) {
+			throw new InvalidCursorError(
+				"Cursor 'w' is not a string",
+				{info: {w: value.w}},
+			);
+		}
+
+		if (value.a !== undefined && !_.isString(value.a)) {
+			throw new InvalidCursorError(
+				"Cursor 'a' is not a string",
+				{info: {a: value.a}},
+			);
+		}
+
+		if (value.t !== undefined && !_.isFinite(value.t)) {
+			throw new InvalidCursorError(
+				"Cursor 't' is not a number",
+				{info: {t: value.t}},
+			);
+		}
+
 		return value;
 	}
 
 	/**
 	 * Creates a Cursor from a serialized string.
+	 *
+	 * @remarks
+	 * If a signer is provided, the string's signature will be verified before
+	 * anything else is done with it.
+	 *
 	 * @param str - The serialized cursor string.
+	 * @param codec - The codec to decode with.
+	 * @param signer - The signer to verify with, if cursors are signed.
 	 * @returns The created cursor.
 	 */
-	static parse(str: string): Cursor {
-		let obj: unknown;
-		try {
-			obj = decodeObject(str);
-		} catch (err) {
-			if (!is(err, InvalidJsonError)) throw err;
-			throw new InvalidCursorError({
-				shortMessage: "Cursor contains invalid JSON",
-				cause: err,
-				info: {cursor: str},
-			});
-		}
-		return Cursor.fromObject(Cursor.validateObject(obj));
+	static parse(
+		str: string,
+		codec: CursorCodec,
+		signer?: CursorSigner,
+	): Cursor {
+		if (signer) str = signer.verify(str);
+		return Cursor.fromObject(Cursor.validateObject(codec.decode(str)));
 	}
 
 	/**
@@ -141,14 +220,23 @@ export class Cursor {
 	toObject(): CursorObj {
 		const obj: CursorObj = {q: this.query, s: this.sort};
 		if (this.values) obj.v = this.values;
+		if (this.fingerprint !== undefined) obj.f = this.fingerprint;
+		if (this.filterFingerprint !== undefined) {
+			obj.w = this.filterFingerprint;
+		}
+		if (this.argsFingerprint !== undefined) obj.a = this.argsFingerprint;
+		if (this.issuedAt !== undefined) obj.t = this.issuedAt;
 		return obj;
 	}
 
 	/**
 	 * Converts a cursor to a serialized string.
+	 * @param codec - The codec to encode with.
+	 * @param signer - The signer to sign with, if cursors are signed.
 	 * @returns The serialized cursor string.
 	 */
-	serialize(): string {
-		return encodeObject(this.toObject());
+	serialize(codec: CursorCodec, signer?: CursorSigner): string {
+		const str = codec.encode(this.toObject());
+		return signer ? signer.sign(str) : str;
 	}
 }
@@ -0,0 +1,95 @@
+import {Model, QueryBuilder} from "objection";
+import _ from "lodash";
+
+/**
+ * Knex dialects whose databases support row value comparisons, like
+ * `(a, b) > (?, ?)`, and can use indexes for them.
+ *
+ * @remarks
+ * Other databases either don't support row values at all, as with MSSQL, or
+ * don't reliably use indexes for them, as with SQLite. We don't bother with
+ * row values in those, since the expanded form works everywhere.
+ */
+const rowValueDialects = ["postgresql", "mysql"];
+
+/**
+ * Knex dialects whose databases support `NULLS FIRST` and `NULLS LAST` in
+ * ORDER BY clauses.
+ *
+ * @remarks
+ * SQLite supports them as well, but only as of version 3.30.0, so it is
+ * checked separately.
+ */
+const nullsOrderDialects = ["postgresql", "oracle"];
+
+/**
+ * The first SQLite version number to support `NULLS FIRST` and `NULLS LAST`,
+ * in the same format as the sqlite3 driver's `VERSION_NUMBER` constant.
+ */
+const sqliteNullsOrderVersion = 3030000;
+
+/**
+ * An internal function that gets the Knex dialect name of a query builder.
+ *
+ * @remarks
+ * The dialect is read from the outermost query the builder belongs to.
+ * Objection binds the builders it passes to `where` callbacks and the like to
+ * the model's Knex instance, even if the outer query was given another one, so
+ * those builders can't be trusted to know which database they're for.
+ *
+ * @param qry - The query builder.
+ * @returns The dialect name, such as 'postgresql' or 'sqlite3', or undefined
+ *   if it could not be determined.
+ */
+export function getDialect(qry: QueryBuilder<Model>): string|undefined {
+	const {client} = getRootQuery(qry).knex();
+	return client ? client.dialect : undefined;
+}
+
+/**
+ * An internal function that checks whether a query builder's database supports
+ * row value comparisons.
+ * @param qry - The query builder.
+ * @returns true if row value comparisons are supported, false otherwise.
+ */
+export function supportsRowValues(qry: QueryBuilder<Model>): boolean {
+	const dialect = getDialect(qry);
+	return dialect !== undefined && rowValueDialects.includes(dialect);
+}
+
+/**
+ * An internal function that checks whether a query builder's database supports
+ * `NULLS FIRST` and `NULLS LAST` in ORDER BY clauses.
+ *
+ * @remarks
+ * For SQLite, the version is read from the sqlite3 driver. If the version
+ * can't be determined-- as with other SQLite drivers, or Knex instances with
+ * no connection-- this conservatively returns false.
+ *
+ * @param qry - The query builder.
+ * @returns true if native null ordering is supported, false otherwise.
+ */
+export function supportsNullsOrder(qry: QueryBuilder<Model>): boolean {
+	const dialect = getDialect(qry);
+	if (dialect === "sqlite3") {
+		const {driver} = getRootQuery(qry).knex().client;
+		const version = driver ? driver.VERSION_NUMBER : undefined;
+		return _.isInteger(version) && version >= sqliteNullsOrderVersion;
+	}
+	return dialect !== undefined && nullsOrderDialects.includes(dialect);
+}
+
+/**
+ * Gets the outermost query to which a query builder belongs.
+ *
+ * @remarks
+ * Objection's typings don't include the `parentQuery` method, hence the cast.
+ *
+ * @param qry - The query builder.
+ * @returns The outermost query builder, which may be the provided one.
+ */
+function getRootQuery(qry: QueryBuilder<Model>): QueryBuilder<Model> {
+	let root: any = qry;
+	while (root.parentQuery()) root = root.parentQuery();
+	return root;
+}
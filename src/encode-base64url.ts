@@ -0,0 +1,17 @@
+/**
+ * An internal function that encodes a buffer as a base64url string.
+ *
+ * @remarks
+ * Newer versions of Node support this encoding natively, but we still support
+ * versions which do not.
+ *
+ * @param buf - The buffer to encode.
+ * @returns The base64url string, without padding.
+ */
+export function encodeBase64Url(buf: Buffer): string {
+	return buf
+		.toString("base64")
+		.replace(/\+/g, "-")
+		.replace(/\//g, "_")
+		.replace(/[=]+$/, "");
+}
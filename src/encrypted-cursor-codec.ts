@@ -0,0 +1,138 @@
+import {
+	CipherGCMTypes,
+	createCipheriv,
+	createDecipheriv,
+	createHash,
+	randomBytes,
+} from "crypto";
+import {ConfigurationError} from "./configuration-error.js";
+import {CursorCodec} from "./cursor-codec.js";
+import {CursorObj} from "./cursor.js";
+import {encodeBase64Url} from "./encode-base64url.js";
+import {InvalidCursorError} from "./invalid-cursor-error.js";
+import _ from "lodash";
+
+/**
+ * A cursor codec which encrypts cursors using AES-256-GCM.
+ *
+ * @remarks
+ * Cursors encoded by this codec are opaque to clients, who can neither read
+ * nor alter their values. Any cursor that fails to decrypt will cause an
+ * InvalidCursorError.
+ *
+ * Keys may be provided as 32-byte buffers, or as strings. Strings are hashed
+ * with SHA-256 to produce a key of the correct length, so they should be long,
+ * random secrets rather than anything resembling a password.
+ *
+ * Multiple keys are supported to allow for key rotation. The first key is
+ * always used to encrypt new cursors, while any of them will be accepted when
+ * decrypting.
+ */
+export class EncryptedCursorCodec implements CursorCodec {
+	/**
+	 * The name of the cipher algorithm.
+	 */
+	static algorithm: CipherGCMTypes = "aes-256-gcm";
+
+	/**
+	 * The length of initialization vectors, in bytes.
+	 */
+	static ivLength = 12;
+
+	/**
+	 * The length of authentication tags, in bytes.
+	 */
+	static tagLength = 16;
+
+	/**
+	 * The normalized encryption keys.
+	 */
+	keys: Buffer[];
+
+	/**
+	 * Creates an EncryptedCursorCodec.
+	 * @param keys - The key or keys to use. The first will be used for
+	 *   encryption, while all of them will be accepted for decryption.
+	 */
+	constructor(keys: string|Buffer|(string|Buffer)[]) {
+		const keyArray = _.castArray(keys);
+		if (_.isEmpty(keyArray)) {
+			throw new ConfigurationError(
+				"At least one cursor encryption key is required",
+			);
+		}
+		this.keys = keyArray.map(key => EncryptedCursorCodec.normalizeKey(key));
+	}
+
+	/**
+	 * Converts a user-provided key into a 32-byte buffer.
+	 * @param key - The user-provided key.
+	 * @returns The normalized key.
+	 */
+	static normalizeKey(key: string|Buffer): Buffer {
+		if (_.isString(key)) return createHash("sha256").update(key).digest();
+		if (key.length === 32) return key;
+		throw new ConfigurationError(
+			"Cursor encryption key buffers must be 32 bytes long",
+			{info: {length: key.length}},
+		);
+	}
+
+	encode(obj: CursorObj): string {
+		const {algorithm, ivLength} = EncryptedCursorCodec;
+		const [key] = this.keys;
+		const iv = randomBytes(ivLength);
+		const cipher = createCipheriv(algorithm, key, iv);
+		const ciphertext = Buffer.concat([
+			cipher.update(JSON.stringify(obj), "utf8"),
+			cipher.final(),
+		]);
+		return encodeBase64Url(
+			Buffer.concat([iv, cipher.getAuthTag(), ciphertext]),
+		);
+	}
+
+	decode(str: string): unknown {
+		const {ivLength, tagLength} = EncryptedCursorCodec;
+		const data = Buffer.from(str, "base64");
+		const iv = data.slice(0, ivLength);
+		const tag = data.slice(ivLength, ivLength + tagLength);
+		const ciphertext = data.slice(ivLength + tagLength);
+		if (ciphertext.length > 0) {
+			for (const key of this.keys) {
+				const json = EncryptedCursorCodec.decrypt(key, iv, tag, ciphertext);
+				if (json !== null) return JSON.parse(json);
+			}
+		}
+		throw new InvalidCursorError(
+			"Cursor could not be decrypted",
+			{info: {cursor: str}},
+		);
+	}
+
+	/**
+	 * Attempts to decrypt a ciphertext with a single key.
+	 * @param key - The key to decrypt with.
+	 * @param iv - The initialization vector.
+	 * @param tag - The authentication tag.
+	 * @param ciphertext - The encrypted data.
+	 * @returns The decrypted string, or null if decryption failed.
+	 */
+	static decrypt(
+		key: Buffer,
+		iv: Buffer,
+		tag: Buffer,
+		ciphertext: Buffer,
+	): string|null {
+		try {
+			const decipher = createDecipheriv(this.algorithm, key, iv);
+			decipher.setAuthTag(tag);
+			return Buffer.concat([
+				decipher.update(ciphertext),
+				decipher.final(),
+			]).toString("utf8");
+		} catch (err) {
+			return null;
+		}
+	}
+}
@@ -0,0 +1,95 @@
+import {ColumnType, ValidationFunction} from "./sort-descriptor.js";
+
+/**
+ * Used to specify the operators clients may use in filters.
+ */
+export enum FilterOperator {
+	/**
+	 * Matches items whose column equals the value.
+	 */
+	Equal = "eq",
+
+	/**
+	 * Matches items whose column does not equal the value.
+	 */
+	NotEqual = "ne",
+
+	/**
+	 * Matches items whose column equals any value in an array.
+	 */
+	In = "in",
+
+	/**
+	 * Matches items whose column is greater than the value.
+	 */
+	GreaterThan = "gt",
+
+	/**
+	 * Matches items whose column is greater than or equal to the value.
+	 */
+	GreaterThanOrEqual = "gte",
+
+	/**
+	 * Matches items whose column is less than the value.
+	 */
+	LessThan = "lt",
+
+	/**
+	 * Matches items whose column is less than or equal to the value.
+	 */
+	LessThanOrEqual = "lte",
+
+	/**
+	 * Matches items whose column matches a SQL LIKE pattern. The value must
+	 * be a string, regardless of the column type.
+	 */
+	Like = "like",
+
+	/**
+	 * Matches items whose column is null if the value is true, or not null if
+	 * the value is false. The value must be a boolean, regardless of the
+	 * column type.
+	 */
+	IsNull = "isNull",
+}
+
+/**
+ * An object used to describe a single field which clients may filter by.
+ */
+export interface FilterDefinition {
+	/**
+	 * The column to filter. Defaults to the name of the field.
+	 *
+	 * @remarks
+	 * As with sort descriptors, this may be qualified with a table name, like
+	 * `${tableName}.${columnName}`, if needed.
+	 */
+	column?: string;
+
+	/**
+	 * The SQL data type of the column, for the purpose of validating filter
+	 * values. Defaults to 'string'.
+	 */
+	columnType?: ColumnType;
+
+	/**
+	 * The operators clients may use for this field. Defaults to 'eq' only.
+	 */
+	operators?: FilterOperator[];
+
+	/**
+	 * The allowed values of the column. This is required if the `columnType`
+	 * is 'enum', and is ignored otherwise.
+	 */
+	values?: any[];
+
+	/**
+	 * Allows you to specify a custom validation function for filter values.
+	 *
+	 * @remarks
+	 * This works just like the `validate` option of sort descriptors. It is
+	 * invoked for each value, including each item of 'in' arrays, but not for
+	 * 'like' patterns or 'isNull' flags.
+	 */
+	validate?: ValidationFunction;
+}
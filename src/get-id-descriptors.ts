@@ -0,0 +1,70 @@
+import {ColumnType, SortDescriptor} from "./sort-descriptor.js";
+import {ConfigurationError} from "./configuration-error.js";
+import {Model, ModelClass} from "objection";
+import _ from "lodash";
+
+/**
+ * An internal function that creates sort descriptors for the id columns of a
+ * model, for use as a tiebreaker.
+ *
+ * @remarks
+ * Columns are qualified with the model's table name, in case the id columns
+ * are ambiguous due to joins. Column types are inferred from the model's JSON
+ * schema, if any. Otherwise they default to 'id', which accepts both strings
+ * and integers, since we can't know which the column holds.
+ *
+ * This function will throw a ConfigurationError if the model has no id
+ * columns.
+ *
+ * @param modelClass - The model class.
+ * @returns The created sort descriptors, one for each id column.
+ */
+export function getIdDescriptors(
+	modelClass: ModelClass<Model>,
+): SortDescriptor[] {
+	const {tableName, jsonSchema} = modelClass;
+	const idColumns = _.castArray(modelClass.idColumn);
+	if (_.isEmpty(idColumns) || !idColumns.every(isNonEmptyString)) {
+		throw new ConfigurationError(
+			"Model has no usable id column for a tiebreaker",
+			{info: {model: modelClass.name, idColumn: modelClass.idColumn}},
+		);
+	}
+	return idColumns.map(idColumn => ({
+		column: `${tableName}.${idColumn}`,
+		columnType: inferColumnType(
+			_.get(jsonSchema, ["properties", idColumn, "type"]),
+		),
+		valuePath: idColumn,
+	}));
+}
+
+/**
+ * Checks whether a value is a non-empty string.
+ * @param value - The value to check.
+ * @returns true if the value is a non-empty string, false otherwise.
+ */
+function isNonEmptyString(value: unknown): boolean {
+	return _.isString(value) && value.length > 0;
+}
+
+/**
+ * Infers a column type from a JSON schema type.
+ *
+ * @remarks
+ * Integer ids also use the 'id' type, since some drivers-- notably pg, for
+ * bigint columns-- return them as strings.
+ *
+ * @param schemaType - The JSON schema type, if any.
+ * @returns The inferred column type.
+ */
+function inferColumnType(schemaType: unknown): ColumnType {
+	switch (schemaType) {
+		case "string":
+			return ColumnType.String;
+		case "number":
+			return ColumnType.Float;
+		default:
+			return ColumnType.Id;
+	}
+}
@@ -0,0 +1,241 @@
+import {
+	ConfigurationError,
+	InvalidArgsError,
+	InvalidCursorError,
+	InvalidLimitError,
+	Page,
+	UnknownSortError,
+	createLinkHeader,
+	getErrorStatus,
+	getProblemDetails,
+	parsePageParams,
+} from "./index.js";
+import {Event} from "./test-utils/event.js";
+import {FilteringEventQuery} from "./test-utils/filtering-event-query.js";
+import {User} from "./test-utils/user.js";
+import {expect} from "chai";
+import {is} from "nani";
+import {knexSnakeCaseMappers} from "objection";
+import {newDb} from "pg-mem";
+
+describe("HTTP helpers", function() {
+	describe("parsePageParams", function() {
+		it("parses page options from query string params", function() {
+			expect(parsePageParams({
+				limit: "10",
+				sort: "byName",
+				cursor: "some-cursor",
+				backward: "true",
+				filter: {role: "admin"},
+				ignored: "value",
+			})).to.deep.equal({
+				limit: 10,
+				sort: "byName",
+				cursor: "some-cursor",
+				backward: true,
+				filter: {role: "admin"},
+			});
+		});
+
+		it("returns empty options for an empty query", function() {
+			expect(parsePageParams({})).to.deep.equal({});
+		});
+
+		it("parses page numbers", function() {
+			expect(parsePageParams({page: "3"})).to.deep.equal({page: 3});
+		});
+
+		it("uses the first value of repeated params", function() {
+			expect(parsePageParams({sort: ["byName", "byScore"]}))
+				.to.deep.equal({sort: "byName"});
+		});
+
+		it("leaves limits for the paginator to validate", function() {
+			expect(parsePageParams({limit: "0"})).to.deep.equal({limit: 0});
+			expect(parsePageParams({limit: "2.5"})).to.deep.equal({limit: 2.5});
+			expect(parsePageParams({limit: "lots"})).to.deep.equal({limit: NaN});
+		});
+
+		it("converts filter values using the paginator's definitions", function() {
+			expect(parsePageParams({
+				filter: {
+					id: {gt: "1", in: "2,3", isNull: "false"},
+					name: "2",
+					unknown: "4",
+				},
+			}, FilteringEventQuery)).to.deep.equal({
+				filter: {
+					id: {gt: 1, in: [2, 3], isNull: false},
+					name: "2",
+					unknown: "4",
+				},
+			});
+		});
+
+		describe("with a database", function() {
+			let knex: any; // Knex typings are stupid.
+
+			before(async function() {
+				knex = newDb().adapters.createKnex(0, knexSnakeCaseMappers());
+				Event.knex(knex);
+
+				await knex.schema.createTable("events", (table: any) => {
+					table.increments("id").primary();
+					table.string("name").notNullable();
+					table.timestamp("happenedAt", {useTz: true}).notNullable();
+				});
+
+				await Event.query().insert([
+					{name: "first", happenedAt: new Date("2020-01-01T00:00:01Z")},
+					{name: "second", happenedAt: new Date("2020-01-01T00:00:02Z")},
+					{name: "third", happenedAt: new Date("2020-01-01T00:00:03Z")},
+				]);
+			});
+
+			after(async function() {
+				await knex.destroy();
+			});
+
+			it("supports numeric filters from query strings", async function() {
+				const options = parsePageParams(
+					{filter: {id: {gt: "1"}}},
+					FilteringEventQuery,
+				);
+				const page = await FilteringEventQuery.getPage(options);
+				expect(page.items.map(e => e.name)).to.deep.equal([
+					"third",
+					"second",
+				]);
+			});
+
+			it("rejects invalid limits with a 400", async function() {
+				class LimitedEventQuery extends FilteringEventQuery {
+					static maxLimit = 2;
+				}
+
+				for (const limit of ["0", "3"]) {
+					const options = parsePageParams({limit});
+					try {
+						// eslint-disable-next-line no-await-in-loop
+						await LimitedEventQuery.getPage(options);
+						expect.fail("Promise should have rejected");
+					} catch (err) {
+						if (!is(err, InvalidLimitError)) throw err;
+						expect(getErrorStatus(err)).to.equal(400);
+					}
+				}
+
+				// Limits within the maximum work as usual.
+				const page = await LimitedEventQuery.getPage(
+					parsePageParams({limit: "2"}),
+				);
+				expect(page.items).to.have.length(2);
+			});
+		});
+	});
+
+	describe("getErrorStatus", function() {
+		it("maps client errors to 400", function() {
+			expect(getErrorStatus(new UnknownSortError())).to.equal(400);
+			expect(getErrorStatus(new InvalidCursorError())).to.equal(400);
+			expect(getErrorStatus(new InvalidLimitError())).to.equal(400);
+		});
+
+		it("maps configuration errors to 500", function() {
+			expect(getErrorStatus(new ConfigurationError())).to.equal(500);
+		});
+
+		it("ignores errors from elsewhere", function() {
+			expect(getErrorStatus(new Error("Omg bad error!"))).to.be.undefined;
+		});
+	});
+
+	describe("getProblemDetails", function() {
+		it("describes client errors", function() {
+			const err = new InvalidCursorError("Cursor is stale");
+			expect(getProblemDetails(err)).to.deep.equal({
+				type: "about:blank",
+				title: "Bad Request",
+				status: 400,
+				detail: "Cursor is stale",
+			});
+		});
+
+		it("includes field-level args errors", function() {
+			const errors = [{path: "/projectId", message: "must be integer"}];
+			const err = new InvalidArgsError({info: {errors}});
+			expect(getProblemDetails(err)).to.deep.equal({
+				type: "about:blank",
+				title: "Bad Request",
+				status: 400,
+				detail: "Invalid args: /projectId must be integer",
+				errors,
+			});
+		});
+
+		it("omits details of server errors", function() {
+			const err = new ConfigurationError("Secret problem");
+			expect(getProblemDetails(err)).to.deep.equal({
+				type: "about:blank",
+				title: "Internal Server Error",
+				status: 500,
+			});
+		});
+
+		it("ignores errors from elsewhere", function() {
+			expect(getProblemDetails(new Error("Omg bad error!"))).to.be
+				.undefined;
+		});
+	});
+
+	describe("createLinkHeader", function() {
+		function createPage(overrides: Partial<Page<User>> = {}): Page<User> {
+			return {
+				items: [],
+				remaining: 0,
+				hasMore: false,
+				cursor: "end",
+				startCursor: "start",
+				endCursor: "end",
+				...overrides,
+			};
+		}
+
+		it("links to the next page", function() {
+			const page = createPage({hasMore: true});
+			expect(createLinkHeader(page, "/users?limit=2&sort=byName"))
+				.to.equal("</users?limit=2&sort=byName&cursor=end>; rel=\"next\"");
+		});
+
+		it("links to the previous page when a cursor was used", function() {
+			const page = createPage({hasMore: true});
+			const url = "https://example.com/users?cursor=abc";
+			expect(createLinkHeader(page, url, {cursor: "abc"})).to.equal([
+				"<https://example.com/users?cursor=start&backward=true>; rel=\"prev\"",
+				"<https://example.com/users?cursor=end>; rel=\"next\"",
+			].join(", "));
+		});
+
+		it("swaps directions for backward pages", function() {
+			const page = createPage({hasMore: true});
+			const url = "/users?backward=true";
+			expect(createLinkHeader(page, url, {backward: true})).to.equal(
+				"</users?backward=true&cursor=start>; rel=\"prev\"",
+			);
+		});
+
+		it("returns undefined when there are no other pages", function() {
+			expect(createLinkHeader(createPage(), "/users")).to.be.undefined;
+		});
+
+		it("links to numbered pages", function() {
+			const page = createPage({pageNumber: 2, pageCount: 3});
+			expect(createLinkHeader(page, "/users?page=2&cursor=x")).to.equal([
+				"</users?page=1>; rel=\"first\"",
+				"</users?page=1>; rel=\"prev\"",
+				"</users?page=3>; rel=\"next\"",
+				"</users?page=3>; rel=\"last\"",
+			].join(", "));
+		});
+	});
+});
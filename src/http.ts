@@ -0,0 +1,327 @@
+import {GetPageOptions, Page, Paginator} from "./paginator.js";
+import {ConfigurationError} from "./configuration-error.js";
+import {InvalidArgsError} from "./invalid-args-error.js";
+import {InvalidConnectionArgsError} from "./invalid-connection-args-error.js";
+import {InvalidCursorError} from "./invalid-cursor-error.js";
+import {InvalidFilterError} from "./invalid-filter-error.js";
+import {InvalidLimitError} from "./invalid-limit-error.js";
+import {InvalidPageError} from "./invalid-page-error.js";
+import {Model} from "objection";
+import {ObjectionPaginatorError} from "./objection-paginator-error.js";
+import {UnknownSortError} from "./unknown-sort-error.js";
+import _ from "lodash";
+import {is} from "nani";
+
+/**
+ * The media type of problem details bodies, as defined by RFC 9457.
+ */
+export const problemContentType = "application/problem+json";
+
+/**
+ * A problem details object, as defined by RFC 9457, for use as the body of an
+ * error response.
+ */
+export interface ProblemDetails {
+	/**
+	 * A URI reference identifying the problem type. This is always
+	 * 'about:blank', indicating that the problem is described by its status.
+	 */
+	type: string;
+
+	/**
+	 * A short summary of the problem type, matching the status code.
+	 */
+	title: string;
+
+	/**
+	 * The HTTP status code of the response.
+	 */
+	status: number;
+
+	/**
+	 * An explanation specific to this occurrence of the problem.
+	 *
+	 * @remarks
+	 * This is omitted for server errors, since their messages are not meant
+	 * for clients.
+	 */
+	detail?: string;
+
+	/**
+	 * The field-level problems with the request's args, if any.
+	 *
+	 * @remarks
+	 * This is only included for `InvalidArgsError`s.
+	 */
+	errors?: {path: string; message: string}[];
+}
+
+/**
+ * Error classes which indicate a problem with the client's request, and should
+ * result in a 400 response.
+ */
+const clientErrorClasses: (typeof ObjectionPaginatorError)[] = [
+	UnknownSortError,
+	InvalidCursorError,
+	InvalidFilterError,
+	InvalidLimitError,
+	InvalidPageError,
+	InvalidArgsError,
+	InvalidConnectionArgsError,
+];
+
+/**
+ * Titles for the status codes used in problem details.
+ */
+const statusTitles: Record<number, string> = {
+	400: "Bad Request",
+	500: "Internal Server Error",
+};
+
+/**
+ * Parses the query string parameters of an HTTP request into options for the
+ * static `::getPage` method of a Paginator.
+ *
+ * @remarks
+ * This works with the parsed query objects of any framework, such as
+ * `req.query` in Express and Fastify, or `ctx.query` in Koa. Repeated
+ * parameters use their first value.
+ *
+ * The recognized parameters are `limit`, `sort`, `cursor`, `backward`, and
+ * `page`, along with `filter` if the framework parses nested objects from the
+ * query string. Limits and page numbers are converted to numbers, but are
+ * otherwise left for the Paginator to validate, so invalid ones will cause
+ * the usual errors.
+ *
+ * Filter values are strings as well. If the Paginator subtype is provided,
+ * they will be converted to the types of its filter definitions with its
+ * static `::coerceFilter` method. Otherwise, only filters on string columns
+ * will pass validation.
+ *
+ * @param query - The parsed query string of the request.
+ * @param paginator - The Paginator subtype the page will be fetched from, if
+ *   filter values should be converted.
+ * @returns The options for fetching the requested page.
+ */
+export function parsePageParams(
+	query: Record<string, unknown>,
+	paginator?: Pick<typeof Paginator, "coerceFilter">,
+): GetPageOptions {
+	const result: GetPageOptions = {};
+	const limit = getParam(query, "limit");
+	if (limit) result.limit = Number(limit);
+	const sort = getParam(query, "sort");
+	if (sort) result.sort = sort;
+	const cursor = getParam(query, "cursor");
+	if (cursor) result.cursor = cursor;
+	const backward = getParam(query, "backward");
+	if (backward !== undefined) {
+		result.backward = backward === "true" || backward === "1";
+	}
+	const page = getParam(query, "page");
+	if (page) result.page = Number(page);
+	if (_.isPlainObject(query.filter)) {
+		const filter = query.filter as Record<string, any>;
+		result.filter = paginator ? paginator.coerceFilter(filter) : filter;
+	}
+	return result;
+}
+
+/**
+ * Gets the HTTP status code for an error thrown by this module.
+ *
+ * @remarks
+ * Errors caused by the client's request map to 400, while all other errors
+ * from this module-- such as `ConfigurationError`s-- map to 500. Errors from
+ * anywhere else are not recognized, and should be handled however you
+ * normally would.
+ *
+ * @param err - The thrown error.
+ * @returns The status code, or undefined if the error is not from this module.
+ */
+export function getErrorStatus(err: unknown): number|undefined {
+	if (!(err instanceof Error) || !is(err, ObjectionPaginatorError)) {
+		return undefined;
+	}
+	if (is(err, ConfigurationError)) return 500;
+	return clientErrorClasses.some(cls => is(err, cls)) ? 400 : 500;
+}
+
+/**
+ * Creates a problem details body for an error thrown by this module.
+ *
+ * @remarks
+ * Bodies should be sent with the status code included in them, and the
+ * `problemContentType` content type.
+ *
+ * @param err - The thrown error.
+ * @returns The problem details, or undefined if the error is not from this
+ *   module.
+ */
+export function getProblemDetails(err: unknown): ProblemDetails|undefined {
+	const status = getErrorStatus(err);
+	if (status === undefined) return undefined;
+	const problem: ProblemDetails = {
+		type: "about:blank",
+		title: statusTitles[status],
+		status,
+	};
+	if (status >= 500) return problem;
+	const error = err as ObjectionPaginatorError;
+	problem.detail = error.shortMessage;
+	const errors: unknown = error.info && error.info.errors;
+	if (is(error, InvalidArgsError) && Array.isArray(errors)) {
+		problem.errors = errors;
+	}
+	return problem;
+}
+
+/**
+ * Creates an RFC 8288 `Link` header value for a fetched page.
+ *
+ * @remarks
+ * Cursor-based pages get `next` and `prev` links, as long as there is known
+ * to be a page in that direction. Pages fetched by number also get `first`
+ * and `last` links.
+ *
+ * Link targets are created by replacing the `cursor`, `backward`, and `page`
+ * parameters of the request URL, so any other parameters-- such as `limit`
+ * and `sort`-- will be preserved. Relative URLs will produce relative links.
+ *
+ * @param page - The fetched page.
+ * @param url - The URL of the request, including its query string.
+ * @param options - The options the page was fetched with, as returned by
+ *   `parsePageParams`.
+ * @returns The header value, or undefined if there are no links.
+ */
+export function createLinkHeader<T extends Model>(
+	page: Page<T>,
+	url: string,
+	options: GetPageOptions = {},
+): string|undefined {
+	const links = page.pageNumber === undefined ?
+		getCursorLinks(page, options) :
+		getPageNumberLinks(page);
+	if (links.length === 0) return undefined;
+	return links
+		.map(({rel, params}) => `<${setParams(url, params)}>; rel="${rel}"`)
+		.join(", ");
+}
+
+/**
+ * A link to create in a `Link` header, along with the parameters which
+ * distinguish its target from the request URL.
+ */
+interface Link {
+	rel: string;
+	params: Record<string, string|undefined>;
+}
+
+/**
+ * Gets the first value of a query string parameter.
+ * @param query - The parsed query string.
+ * @param name - The name of the parameter.
+ * @returns The value, or undefined if the parameter is missing or is not a
+ *   string.
+ */
+function getParam(
+	query: Record<string, unknown>,
+	name: string,
+): string|undefined {
+	const value = Array.isArray(query[name]) ?
+		(query[name] as unknown[])[0] :
+		query[name];
+	return typeof value === "string" ? value : undefined;
+}
+
+/**
+ * Gets the links for a page fetched by cursor.
+ *
+ * @remarks
+ * The `hasMore` property only tells us about the direction the page was
+ * fetched in. In the other direction, we assume there is a page only if the
+ * request had a cursor.
+ *
+ * @param page - The page.
+ * @param options - The options the page was fetched with.
+ * @returns The links.
+ */
+function getCursorLinks<T extends Model>(
+	page: Page<T>,
+	options: GetPageOptions,
+): Link[] {
+	const links: Link[] = [];
+	const hasCursor = Boolean(options.cursor);
+	const hasPrev = options.backward ? page.hasMore : hasCursor;
+	const hasNext = options.backward ? hasCursor : page.hasMore;
+	if (hasPrev) {
+		links.push({
+			rel: "prev",
+			params: {cursor: page.startCursor, backward: "true", page: undefined},
+		});
+	}
+	if (hasNext) {
+		links.push({
+			rel: "next",
+			params: {cursor: page.endCursor, backward: undefined, page: undefined},
+		});
+	}
+	return links;
+}
+
+/**
+ * Gets the links for a page fetched by number.
+ * @param page - The page.
+ * @returns The links.
+ */
+function getPageNumberLinks<T extends Model>(page: Page<T>): Link[] {
+	const pageNumber = page.pageNumber as number;
+	const pageCount = page.pageCount || 0;
+	const links: Link[] = [{rel: "first", params: getPageParams(1)}];
+	if (pageNumber > 1) {
+		links.push({
+			rel: "prev",
+			params: getPageParams(Math.min(pageNumber - 1, pageCount || 1)),
+		});
+	}
+	if (pageNumber < pageCount) {
+		links.push({rel: "next", params: getPageParams(pageNumber + 1)});
+	}
+	if (pageCount > 0) {
+		links.push({rel: "last", params: getPageParams(pageCount)});
+	}
+	return links;
+}
+
+/**
+ * Gets the link parameters for a page number.
+ * @param pageNumber - The page number.
+ * @returns The link parameters.
+ */
+function getPageParams(pageNumber: number): Link["params"] {
+	return {page: String(pageNumber), cursor: undefined, backward: undefined};
+}
+
+/**
+ * Replaces query string parameters in a URL.
+ * @param url - The URL, which may be relative.
+ * @param params - The parameters to set. Undefined values will remove their
+ *   parameters.
+ * @returns The updated URL.
+ */
+function setParams(
+	url: string,
+	params: Record<string, string|undefined>,
+): string {
+	const absolute = (/^[a-z][a-z\d+.-]*:/i).test(url);
+	const parsed = new URL(url, "http://localhost");
+	for (const [name, value] of Object.entries(params)) {
+		if (value === undefined) {
+			parsed.searchParams.delete(name);
+		} else {
+			parsed.searchParams.set(name, value);
+		}
+	}
+	if (absolute) return parsed.href;
+	return `${parsed.pathname}${parsed.search}${parsed.hash}`;
+}
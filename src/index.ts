@@ -1,17 +1,48 @@
 export {
 	GetPageOptions,
 	If,
+	IterateOptions,
 	Page,
 	Paginator,
 	PaginatorConstructor,
 	PaginatorOptions,
+	StaticIterateOptions,
 } from "./paginator.js";
+export {ArgsError, ArgsValidationFunction} from "./args-validator.js";
+export {CountMode} from "./count-mode.js";
+export {FilterDefinition, FilterOperator} from "./filter-definition.js";
 export {
 	ColumnType,
 	SortDirection,
 	SortDescriptor,
+	SortableColumn,
 	ValidationFunction,
 } from "./sort-descriptor.js";
+export {
+	Connection,
+	ConnectionArgs,
+	ConnectionOptions,
+	Edge,
+	PageInfo,
+	getConnection,
+} from "./connection.js";
+export {
+	ProblemDetails,
+	createLinkHeader,
+	getErrorStatus,
+	getProblemDetails,
+	parsePageParams,
+	problemContentType,
+} from "./http.js";
+export {CursorCodec} from "./cursor-codec.js";
+export {CursorObj} from "./cursor.js";
+export {EncryptedCursorCodec} from "./encrypted-cursor-codec.js";
+export {JsonCursorCodec} from "./json-cursor-codec.js";
 export {ConfigurationError} from "./configuration-error.js";
+export {InvalidArgsError} from "./invalid-args-error.js";
+export {InvalidConnectionArgsError} from "./invalid-connection-args-error.js";
 export {InvalidCursorError} from "./invalid-cursor-error.js";
+export {InvalidFilterError} from "./invalid-filter-error.js";
+export {InvalidLimitError} from "./invalid-limit-error.js";
+export {InvalidPageError} from "./invalid-page-error.js";
 export {UnknownSortError} from "./unknown-sort-error.js";
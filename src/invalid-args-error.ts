@@ -0,0 +1,40 @@
+import {ArgsError} from "./args-validator.js";
+import {ObjectionPaginatorError} from "./objection-paginator-error.js";
+
+/**
+ * Error class which indicates that the args provided to a Paginator failed
+ * validation against its static argsSchema.
+ *
+ * @remarks
+ * The field-level problems are available as `info.errors`, each with a `path`
+ * to the invalid arg-- as a JSON pointer-- and a `message`. If args come from
+ * clients, you will probably want to catch these errors and indicate the
+ * problems to the client.
+ */
+export class InvalidArgsError extends ObjectionPaginatorError {
+	static getDefaultMessage(info?: Record<string, any>): string {
+		let msg = "Invalid args";
+		if (info && isArgsErrors(info.errors)) {
+			msg += `: ${info.errors.map(formatArgsError).join("; ")}`;
+		}
+		return msg;
+	}
+}
+
+/**
+ * Checks whether a value is a non-empty array of args errors.
+ * @param value - The value to check.
+ * @returns true if the value is a non-empty array, false otherwise.
+ */
+function isArgsErrors(value: unknown): value is ArgsError[] {
+	return Array.isArray(value) && value.length > 0;
+}
+
+/**
+ * Formats a single args error for inclusion in an error message.
+ * @param error - The args error.
+ * @returns The formatted error.
+ */
+function formatArgsError(error: ArgsError): string {
+	return error.path ? `${error.path} ${error.message}` : error.message;
+}
@@ -0,0 +1,16 @@
+import {ObjectionPaginatorError} from "./objection-paginator-error.js";
+
+/**
+ * Error class which indicates that invalid Relay-style connection arguments
+ * were provided to the `getConnection` function.
+ *
+ * @remarks
+ * These arguments usually come straight from a GraphQL client, so you will
+ * probably want to catch these errors and report the problem back to that
+ * client.
+ */
+export class InvalidConnectionArgsError extends ObjectionPaginatorError {
+	static getDefaultMessage(): string {
+		return "Invalid connection args";
+	}
+}
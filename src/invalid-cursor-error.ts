@@ -12,7 +12,7 @@ import {ObjectionPaginatorError} from "./objection-paginator-error.js";
  *
  * The contents of Objection Paginator cursors are an implementation detail
  * which clients should not rely on, even though they can easily parse them
- * since they are not encrypted.
+ * unless they are encrypted.
  *
  * These errors should usually be caught by your api and replaced with some
  * indication of a mishandled cursor to the client.
@@ -0,0 +1,15 @@
+import {ObjectionPaginatorError} from "./objection-paginator-error.js";
+
+/**
+ * Error class which indicates that a client-provided filter was invalid.
+ *
+ * @remarks
+ * Filters are checked against the static filters property of the Paginator
+ * subtype. Since filters usually come straight from clients, you will probably
+ * want to catch these errors and indicate the problem to the client.
+ */
+export class InvalidFilterError extends ObjectionPaginatorError {
+	static getDefaultMessage(): string {
+		return "Invalid filter";
+	}
+}
@@ -0,0 +1,19 @@
+import {ObjectionPaginatorError} from "./objection-paginator-error.js";
+
+/**
+ * Error class which indicates that an invalid limit was provided to a
+ * Paginator.
+ *
+ * @remarks
+ * Limits must be positive integers, and may not exceed the static maxLimit of
+ * the Paginator subtype, if it has one. If you are allowing clients to specify
+ * limits, you may want to catch these errors and indicate the problem to the
+ * client, or set the static clampLimit property instead.
+ */
+export class InvalidLimitError extends ObjectionPaginatorError {
+	static getDefaultMessage(info?: Record<string, any>): string {
+		let msg = "Invalid limit";
+		if (info && "limit" in info) msg += `: '${info.limit}'`;
+		return msg;
+	}
+}
@@ -0,0 +1,18 @@
+import {ObjectionPaginatorError} from "./objection-paginator-error.js";
+
+/**
+ * Error class which indicates that an invalid page number was provided to the
+ * `#executePage` or `::getPage` methods of a Paginator.
+ *
+ * @remarks
+ * Page numbers must be positive integers. If you are allowing clients to
+ * specify page numbers, you may want to catch these errors and indicate the
+ * problem to the client.
+ */
+export class InvalidPageError extends ObjectionPaginatorError {
+	static getDefaultMessage(info?: Record<string, any>): string {
+		let msg = "Invalid page number";
+		if (info && "page" in info) msg += `: '${info.page}'`;
+		return msg;
+	}
+}
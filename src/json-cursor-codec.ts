@@ -0,0 +1,33 @@
+import {InvalidJsonError, decodeObject, encodeObject} from "@batterii/encode-object";
+import {CursorCodec} from "./cursor-codec.js";
+import {CursorObj} from "./cursor.js";
+import {InvalidCursorError} from "./invalid-cursor-error.js";
+import {is} from "nani";
+
+/**
+ * The default cursor codec, which encodes cursors as base64url-encoded JSON.
+ *
+ * @remarks
+ * Cursors encoded by this codec are not encrypted, so clients can easily
+ * decode them and read their values.
+ */
+export class JsonCursorCodec implements CursorCodec {
+	// eslint-disable-next-line class-methods-use-this
+	encode(obj: CursorObj): string {
+		return encodeObject(obj);
+	}
+
+	// eslint-disable-next-line class-methods-use-this
+	decode(str: string): unknown {
+		try {
+			return decodeObject(str);
+		} catch (err) {
+			if (!is(err, InvalidJsonError)) throw err;
+			throw new InvalidCursorError({
+				shortMessage: "Cursor contains invalid JSON",
+				cause: err,
+				info: {cursor: str},
+			});
+		}
+	}
+}
@@ -0,0 +1,194 @@
+import {Model, QueryBuilder} from "objection";
+import {ColumnType} from "./sort-descriptor.js";
+import {ConfigurationError} from "./configuration-error.js";
+import {getDialect} from "./dialect.js";
+
+/**
+ * SQL types to cast extracted JSON values to in Postgres, by column type.
+ */
+const postgresCastTypes: Record<ColumnType, string> = {
+	[ColumnType.String]: "text",
+	[ColumnType.Integer]: "bigint",
+	[ColumnType.Float]: "double precision",
+	[ColumnType.Boolean]: "boolean",
+	[ColumnType.Date]: "timestamptz",
+	[ColumnType.BigInt]: "bigint",
+	[ColumnType.Uuid]: "uuid",
+	[ColumnType.Decimal]: "numeric",
+	[ColumnType.Enum]: "text",
+	[ColumnType.Timestamp]: "timestamptz",
+	[ColumnType.Id]: "text",
+};
+
+/**
+ * SQL types to cast extracted JSON values to in MySQL, by column type.
+ *
+ * @remarks
+ * Booleans are missing here since MySQL has no boolean type to cast to. They
+ * are handled with a comparison instead.
+ */
+const mysqlCastTypes: Partial<Record<ColumnType, string>> = {
+	[ColumnType.String]: "char",
+	[ColumnType.Integer]: "signed",
+	[ColumnType.Float]: "double",
+	[ColumnType.Date]: "datetime(6)",
+	[ColumnType.BigInt]: "signed",
+	[ColumnType.Uuid]: "char",
+	[ColumnType.Decimal]: "decimal(65,30)",
+	[ColumnType.Enum]: "char",
+	[ColumnType.Timestamp]: "datetime(6)",
+	[ColumnType.Id]: "char",
+};
+
+/**
+ * An internal utility class for JSON column references, written in
+ * Objection's field expression syntax: `column:path.to.property`.
+ *
+ * @remarks
+ * Objection can create references like this itself with `ref`, but it always
+ * produces Postgres-specific SQL. This class produces the equivalent for
+ * each database we support, using that database's JSON functions.
+ *
+ * Path segments are restricted to word characters and array indices, like
+ * `items[0].rank`, so that they can be safely written directly into SQL.
+ */
+export class JsonPath {
+	/**
+	 * Used to validate and parse JSON references.
+	 */
+	private static _pattern = /^([^:]+):(\w+(?:\[\d+\])*(?:\.\w+(?:\[\d+\])*)*)$/;
+
+	/**
+	 * Used to split JSON paths into their individual segments.
+	 */
+	private static _separatorPattern = /\.|(?=\[)/;
+
+	/**
+	 * The identifier of the JSON column.
+	 */
+	column: string;
+
+	/**
+	 * The segments of the path within the column. Numbers are array indices.
+	 */
+	segments: (string|number)[];
+
+	/**
+	 * Creates a JsonPath.
+	 * @param column - The identifier of the JSON column.
+	 * @param segments - The segments of the path within the column.
+	 */
+	constructor(column: string, segments: (string|number)[]) {
+		this.column = column;
+		this.segments = segments;
+	}
+
+	/**
+	 * Checks whether a user-provided column identifier references a path
+	 * within a JSON column.
+	 * @param str - The user-provided column identifier.
+	 * @returns true if the identifier is a JSON reference, false otherwise.
+	 */
+	static isJsonPath(str: string): boolean {
+		return str.includes(":");
+	}
+
+	/**
+	 * Creates a JsonPath from a user-provided JSON reference.
+	 *
+	 * @remarks
+	 * Unlike `Column.parse`, this method validates the string while parsing
+	 * it, and will throw if it is invalid.
+	 *
+	 * @param str - The user-provided JSON reference.
+	 * @returns The created instance.
+	 */
+	static parse(str: string): JsonPath {
+		const match = this._pattern.exec(str);
+		if (!match) {
+			throw new ConfigurationError(`Invalid JSON reference '${str}'`);
+		}
+		const [, column, path] = match;
+		const segments = path.split(this._separatorPattern).map(segment => {
+			if (!segment.startsWith("[")) return segment;
+			return Number(segment.slice(1, -1));
+		});
+		return new this(column, segments);
+	}
+
+	/**
+	 * Gets the dot-separated path to the referenced value in a fetched entity,
+	 * for use as a default `valuePath`.
+	 *
+	 * @remarks
+	 * The table name, if any, is omitted, since Objection does not nest
+	 * properties by table.
+	 *
+	 * @returns The dot-separated path.
+	 */
+	getValuePath(): string {
+		const columnName = this.column.split(".").pop() as string;
+		return [columnName, ...this.segments].join(".");
+	}
+
+	/**
+	 * Creates a raw SQL expression which extracts the referenced value and
+	 * casts it to the specified column type.
+	 *
+	 * @remarks
+	 * The column itself is provided as an identifier binding (`??`), so any
+	 * identifier mappers on the query will still be applied to it.
+	 *
+	 * SQLite's `json_extract` already returns values with SQL types matching
+	 * their JSON types, so no cast is needed there. Dates in SQLite are
+	 * compared as strings, as they would be in any other SQLite column.
+	 *
+	 * @param qry - The query builder the expression is for.
+	 * @param columnType - The column type to cast to.
+	 * @returns The SQL expression and its bindings.
+	 */
+	toSql(
+		qry: QueryBuilder<Model>,
+		columnType: ColumnType,
+	): [string, any[]] {
+		const dialect = getDialect(qry);
+		const bindings = [this.column];
+		switch (dialect) {
+			case "postgresql": {
+				const path = `{${this.segments.join(",")}}`;
+				const type = postgresCastTypes[columnType];
+				return [`CAST(??#>>'${path}' AS ${type})`, bindings];
+			}
+			case "mysql": {
+				const path = this.getJsonPathString();
+				const extracted = `json_unquote(json_extract(??, '${path}'))`;
+				const type = mysqlCastTypes[columnType];
+				if (type === undefined) {
+					return [`(${extracted} = 'true')`, bindings];
+				}
+				return [`CAST(${extracted} AS ${type})`, bindings];
+			}
+			case "sqlite3": {
+				const path = this.getJsonPathString();
+				return [`json_extract(??, '${path}')`, bindings];
+			}
+			default:
+				throw new ConfigurationError(
+					"JSON references are not supported for this database",
+					{info: {dialect, column: this.column}},
+				);
+		}
+	}
+
+	/**
+	 * Converts the path segments to a SQL/JSON path string, like `$.a[0].b`,
+	 * as used by MySQL and SQLite.
+	 * @returns The path string.
+	 */
+	getJsonPathString(): string {
+		return this.segments.reduce<string>((result, segment) => {
+			if (typeof segment === "number") return `${result}[${segment}]`;
+			return `${result}.${segment}`;
+		}, "$");
+	}
+}
@@ -1,13 +1,56 @@
-import {ColumnType, GetPageOptions, InvalidCursorError, Page} from "./index.js";
+import {
+	ArgsError,
+	ColumnType,
+	ConfigurationError,
+	Connection,
+	CountMode,
+	EncryptedCursorCodec,
+	GetPageOptions,
+	InvalidArgsError,
+	InvalidConnectionArgsError,
+	InvalidCursorError,
+	InvalidFilterError,
+	InvalidLimitError,
+	InvalidPageError,
+	Page,
+	Paginator,
+	StaticIterateOptions,
+	UnknownSortError,
+	getConnection,
+} from "./index.js";
 import {MemberRole, Membership} from "./test-utils/membership.js";
-import {Model, PartialModelObject, knexSnakeCaseMappers} from "objection";
+import {
+	Model,
+	PartialModelObject,
+	QueryBuilder,
+	knexSnakeCaseMappers,
+} from "objection";
 import {User, UserRole} from "./test-utils/user.js";
+import {BoundMemberQuery} from "./test-utils/bound-member-query.js";
+import {ClampingUserQuery} from "./test-utils/clamping-user-query.js";
+import {CompositeMembership} from "./test-utils/composite-membership.js";
+import {CustomValidatedMemberQuery} from "./test-utils/custom-validated-member-query.js";
+import {DynamicUserQuery} from "./test-utils/dynamic-user-query.js";
+import {EncryptedUserQuery} from "./test-utils/encrypted-user-query.js";
+import {EstimatingUserQuery} from "./test-utils/estimating-user-query.js";
+import {ExpiringUserQuery} from "./test-utils/expiring-user-query.js";
+import {FilteringUserQuery} from "./test-utils/filtering-user-query.js";
 import {Food} from "./test-utils/food.js";
+import {FullyBoundMemberQuery} from "./test-utils/fully-bound-member-query.js";
+import {HexCursorCodec} from "./test-utils/hex-cursor-codec.js";
 import Knex from "knex";
+import {LimitedUserQuery} from "./test-utils/limited-user-query.js";
 import {MemberQuery} from "./test-utils/member-query.js";
+import {MembershipQuery} from "./test-utils/membership-query.js";
 import {Project} from "./test-utils/project.js";
+import {RestrictedUserQuery} from "./test-utils/restricted-user-query.js";
+import {Session} from "./test-utils/session.js";
+import {SessionQuery} from "./test-utils/session-query.js";
+import {SignedUserQuery} from "./test-utils/signed-user-query.js";
 import {UserQuery} from "./test-utils/user-query.js";
-import {alterCursor} from "./test-utils/alter-cursor.js";
+import {ValidatedMemberQuery} from "./test-utils/validated-member-query.js";
+import {alterCursor, alterCursorObject} from "./test-utils/alter-cursor.js";
+import {decodeObject} from "@batterii/encode-object";
 import {expect} from "chai";
 import {is} from "nani";
 import {dirname, resolve as resolvePath} from "path";
@@ -50,6 +93,8 @@ describe("Paginator", function() {
 				.references("id")
 				.inTable("foods")
 				.onDelete("SET NULL");
+			table.json("stats");
+			table.timestamp("createdAt");
 		});
 
 		await knex.schema.createTable("projects", table => {
@@ -78,6 +123,11 @@ describe("Paginator", function() {
 			table.unique(["projectId", "userId"]);
 		});
 
+		await knex.schema.createTable("sessions", table => {
+			table.increments("id").primary();
+			table.string("startedAt").notNullable();
+		});
+
 		const foods: PartialModelObject<Food>[] = [
 			{name: "Tacos"},
 			{name: "Pizza"},
@@ -89,16 +139,38 @@ describe("Paginator", function() {
 				lastName: "Ripberger",
 				role: UserRole.Administrator,
 				favoriteFoodId: 2,
+				stats: {ranks: {overall: 3}},
+				createdAt: new Date("2020-01-01T00:00:00.001Z"),
 			},
 			{
 				firstName: "Terd",
 				lastName: "Ferguson",
 				score: 0.5,
 				favoriteFoodId: 1,
+				stats: {ranks: {overall: 1}},
+				createdAt: new Date("2020-01-01T00:00:00.002Z"),
+			},
+			{
+				firstName: "Dude",
+				lastName: "Bro",
+				favoriteFoodId: 2,
+				stats: {ranks: {overall: 2}},
+				createdAt: new Date("2020-01-01T00:00:00.002Z"),
+			},
+			{
+				firstName: "Cool",
+				lastName: "Guy",
+				suspended: true,
+				stats: {ranks: {overall: 2}},
+				createdAt: new Date("2020-01-01T00:00:00.003Z"),
+			},
+			{
+				firstName: "Terd",
+				lastName: "McGee",
+				score: 0.5,
+				stats: {ranks: {overall: 5}},
+				createdAt: new Date("2020-01-01T00:00:00.004Z"),
 			},
-			{firstName: "Dude", lastName: "Bro", favoriteFoodId: 2},
-			{firstName: "Cool", lastName: "Guy", suspended: true},
-			{firstName: "Terd", lastName: "McGee", score: 0.5},
 		];
 
 		const projects: PartialModelObject<Project>[] = [
@@ -124,6 +196,13 @@ describe("Paginator", function() {
 		for (const membership of memberships) {
 			await Membership.query().insert(membership);
 		}
+		for (const startedAt of [
+			"2020-01-01 00:00:00.001500",
+			"2020-01-01 00:00:00.001200",
+			"2020-01-01 00:00:00.001800",
+		]) {
+			await Session.query().insert({startedAt});
+		}
 		/* eslint-enable no-await-in-loop */
 	});
 
@@ -239,6 +318,125 @@ describe("Paginator", function() {
 		expect(remaining).to.equal(0);
 	});
 
+	it("binds cursors to arguments when configured", async function() {
+		const ctx = {user: "Steve"};
+		let page = await BoundMemberQuery.getPage(
+			{limit: 2},
+			{projectId: 1, ctx},
+		);
+		const {cursor} = page;
+
+		// Args that aren't fingerprinted may change.
+		page = await BoundMemberQuery.getPage(
+			{limit: 2, cursor},
+			{projectId: 1, ctx: {user: "Terd"}},
+		);
+		expect(page.items.map(u => u.name)).to.deep.equal([
+			"Dude Bro",
+			"Steve Ripberger",
+		]);
+
+		// Args that are fingerprinted may not.
+		try {
+			await BoundMemberQuery.getPage({cursor}, {projectId: 2, ctx});
+			expect.fail("Promise should have rejected");
+		} catch (err) {
+			if (!is(err, InvalidCursorError)) throw err;
+			expect(err.shortMessage).to.equal("Cursor is for different arguments");
+		}
+
+		// Unbound cursors should not be accepted either.
+		const unbound = await MemberQuery.getPage({limit: 2}, {projectId: 1});
+		try {
+			await BoundMemberQuery.getPage(
+				{cursor: alterCursorObject(unbound.cursor, {q: "BoundMemberQuery"})},
+				{projectId: 1},
+			);
+			expect.fail("Promise should have rejected");
+		} catch (err) {
+			if (!is(err, InvalidCursorError)) throw err;
+			expect(err.shortMessage).to.equal("Cursor is for different arguments");
+		}
+
+		// All args are fingerprinted if the option is true.
+		page = await FullyBoundMemberQuery.getPage({limit: 2}, {projectId: 1});
+		try {
+			await FullyBoundMemberQuery.getPage(
+				{cursor: page.cursor},
+				{projectId: 1, ctx},
+			);
+			expect.fail("Promise should have rejected");
+		} catch (err) {
+			if (!is(err, InvalidCursorError)) throw err;
+			expect(err.shortMessage).to.equal("Cursor is for different arguments");
+		}
+	});
+
+	it("validates arguments against a schema", async function() {
+		// Args should be coerced to the schema's types.
+		const args: any = {projectId: "1"};
+		const page = await ValidatedMemberQuery.getPage({limit: 2}, args);
+		expect(page.items.map(u => u.name)).to.deep.equal([
+			"Terd Ferguson",
+			"Cool Guy",
+		]);
+		expect(args.projectId).to.equal(1);
+
+		const cases: {args: any; errors: ArgsError[]}[] = [
+			{
+				args: {},
+				errors: [{
+					path: "/projectId",
+					message: "must have required property 'projectId'",
+				}],
+			},
+			{
+				args: {projectId: "foo"},
+				errors: [{path: "/projectId", message: "must be integer"}],
+			},
+			{
+				args: {projectId: 0},
+				errors: [{path: "/projectId", message: "must be >= 1"}],
+			},
+		];
+		for (const {args: invalidArgs, errors} of cases) {
+			try {
+				// eslint-disable-next-line no-await-in-loop
+				await ValidatedMemberQuery.getPage({}, invalidArgs);
+				expect.fail("Promise should have rejected");
+			} catch (err) {
+				if (!is(err, InvalidArgsError)) throw err;
+				expect(err.info).to.deep.equal({errors});
+			}
+		}
+
+		// Args are validated when the paginator is created.
+		expect(() => new ValidatedMemberQuery({}, {projectId: 0}))
+			.to.throw(InvalidArgsError, "Invalid args: /projectId must be >= 1");
+	});
+
+	it("validates arguments with a custom function", async function() {
+		const page = await CustomValidatedMemberQuery.getPage(
+			{limit: 2},
+			{projectId: 1},
+		);
+		expect(page.items).to.have.length(2);
+
+		for (const [projectId, message] of [
+			[2, "Invalid args: Project 2 is off limits"],
+			[3, "Invalid args: Args are invalid"],
+		] as [number, string][]) {
+			try {
+				// eslint-disable-next-line no-await-in-loop
+				await CustomValidatedMemberQuery.getPage({}, {projectId});
+				expect.fail("Promise should have rejected");
+			} catch (err) {
+				if (!is(err, InvalidArgsError)) throw err;
+				expect(err.shortMessage).to.equal(message);
+			}
+		}
+	});
+
 	it("supports the ::getPage static method", async function() {
 		// We can just repeat part of a previous test using ::getPage.
 		const options: GetPageOptions = {limit: 2};
@@ -268,212 +466,1411 @@ describe("Paginator", function() {
 		expect(page.remaining).to.equal(0);
 	});
 
-	it("checks cursor query names and sort sort names", async function() {
-		const userQuery = new UserQuery();
-		const memberQuery = new MemberQuery({}, {projectId: 1});
-		const reverseUserQuery = new UserQuery({sort: "reverse"});
+	it("appends the model's id to sorts as a tiebreaker", async function() {
+		const qry = new UserQuery({limit: 2, sort: "byFirstName"});
+		let page: Page<User>;
 
-		// Get a cursor for a default user query.
-		const {cursor: userCursor} = await userQuery.execute();
+		// First page.
+		page = await qry.execute();
+		expect(page.items.map(u => u.name)).to.deep.equal([
+			"Cool Guy",
+			"Dude Bro",
+		]);
+
+		// Second page, which should break the tie between the Terds by id.
+		page = await qry.execute(page.cursor);
+		expect(page.items.map(u => u.name)).to.deep.equal([
+			"Steve Ripberger",
+			"Terd Ferguson",
+		]);
+		expect(decodeObject(page.cursor).v).to.deep.equal(["Terd", 2]);
 
-		// Send it to the member query and make sure it fails properly.
-		try {
-			await memberQuery.execute(userCursor);
-			expect.fail("Promise should have rejected");
-		} catch (err) {
-			if (!is(err, InvalidCursorError)) throw err;
-			expect(err.shortMessage).to.equal(
-				"Cursor is for a different query",
-			);
-			expect(err.cause).to.be.null;
-			expect(err.info).to.deep.equal({
-				cursorQuery: UserQuery.name,
-				expectedQuery: MemberQuery.name,
-			});
+		// Last page.
+		page = await qry.execute(page.cursor);
+		expect(page.items.map(u => u.name)).to.deep.equal(["Terd McGee"]);
+
+		// Sorts already ending with the id should not get another.
+		page = await UserQuery.getPage({limit: 1});
+		expect(decodeObject(page.cursor).v).to.have.length(6);
+	});
+
+	it("supports composite ids as tiebreakers", async function() {
+		const qry = new MembershipQuery({limit: 3});
+		let page: Page<CompositeMembership>;
+
+		// First page.
+		page = await qry.execute();
+		expect(page.items.map(m => [m.projectId, m.userId])).to.deep.equal([
+			[1, 2],
+			[2, 5],
+			[1, 1],
+		]);
+		expect(decodeObject(page.cursor).v).to.deep.equal([
+			"regularMember",
+			1,
+			1,
+		]);
+
+		// Second page.
+		page = await qry.execute(page.cursor);
+		expect(page.items.map(m => [m.projectId, m.userId])).to.deep.equal([
+			[1, 3],
+			[1, 4],
+			[1, 5],
+		]);
+	});
+
+	it("supports string ids as tiebreakers without a schema", async function() {
+		class NamedProject extends Project {
+			static idColumn = "name";
 		}
 
-		// Send it to the reverse user query and make sure it fails properly.
-		try {
-			await reverseUserQuery.execute(userCursor);
-			expect.fail("Promise should have rejected");
-		} catch (err) {
-			if (!is(err, InvalidCursorError)) throw err;
-			expect(err.shortMessage).to.equal(
-				"Cursor is for a different sort",
-			);
-			expect(err.cause).to.be.null;
-			expect(err.info).to.deep.equal({
-				cursorSort: "default",
-				expectedSort: "reverse",
-			});
+		class NamedProjectQuery extends Paginator<NamedProject> {
+			static sorts = {default: []};
+
+			// eslint-disable-next-line class-methods-use-this
+			getBaseQuery(): QueryBuilder<NamedProject> {
+				return NamedProject.query();
+			}
 		}
+
+		let page = await NamedProjectQuery.getPage({limit: 1});
+		expect(page.items.map(p => p.name)).to.deep.equal(["Cool Project"]);
+		expect(decodeObject(page.cursor).v).to.deep.equal(["Cool Project"]);
+
+		page = await NamedProjectQuery.getPage({limit: 1, cursor: page.cursor});
+		expect(page.items.map(p => p.name)).to.deep.equal(["Uncool Project"]);
 	});
 
-	it("validates cursor values against column types", async function() {
-		// Create a default user query.
-		const userQuery = new UserQuery();
+	it("requires a usable id for the default tiebreaker", async function() {
+		class IdlessMembership extends CompositeMembership {
+			static idColumn = [];
+		}
 
-		// Get a cursor that we will alter for these tests.
-		const {cursor} = await userQuery.execute();
+		class IdlessMembershipQuery extends Paginator<IdlessMembership> {
+			static sorts = {default: ["role"]};
 
-		// Try with the firstName value as a non-string.
-		let invalidCursor = alterCursor(cursor, 3, 42);
-		try {
-			await userQuery.execute(invalidCursor);
-			expect.fail("Promise should have rejected");
-		} catch (err) {
-			if (!is(err, InvalidCursorError)) throw err;
-			expect(err.shortMessage).to.equal(
-				"Cursor value does not match its column type",
-			);
-			expect(err.cause).to.be.null;
-			expect(err.info).to.deep.equal({
-				columnType: ColumnType.String,
-				value: 42,
-			});
+			// eslint-disable-next-line class-methods-use-this
+			getBaseQuery(): QueryBuilder<IdlessMembership> {
+				return IdlessMembership.query();
+			}
 		}
 
-		// Try with the id value as a non-integer.
-		invalidCursor = alterCursor(cursor, 5, 4.2);
 		try {
-			await userQuery.execute(invalidCursor);
+			await IdlessMembershipQuery.getPage();
 			expect.fail("Promise should have rejected");
 		} catch (err) {
-			if (!is(err, InvalidCursorError)) throw err;
+			if (!is(err, ConfigurationError)) throw err;
 			expect(err.shortMessage).to.equal(
-				"Cursor value does not match its column type",
+				"Model has no usable id column for a tiebreaker",
 			);
-			expect(err.cause).to.be.null;
-			expect(err.info).to.deep.equal({
-				columnType: ColumnType.Integer,
-				value: 4.2,
-			});
 		}
 
-		// Try with the score value as an non-number.
-		invalidCursor = alterCursor(cursor, 2, "foo");
+		// An explicit tiebreaker should be used instead.
+		class ExplicitMembershipQuery extends IdlessMembershipQuery {
+			static tiebreaker = {column: "id", columnType: ColumnType.Integer};
+		}
+		const page = await ExplicitMembershipQuery.getPage({limit: 1});
+		expect(decodeObject(page.cursor).v).to.deep.equal(["manager", 1]);
+	});
+
+	it("supports dynamic sorts from sortable columns", async function() {
+		const qry = new DynamicUserQuery({limit: 2, sort: "-score, firstName"});
+		let page: Page<User>;
+
+		// First page.
+		page = await qry.execute();
+		expect(page.items.map(u => u.name)).to.deep.equal([
+			"Terd Ferguson",
+			"Terd McGee",
+		]);
+		expect(page.remaining).to.equal(3);
+
+		// The tiebreaker should be included in cursor values.
+		expect(decodeObject(page.cursor).v).to.deep.equal([0.5, "Terd", 5]);
+
+		// Second page.
+		page = await qry.execute(page.cursor);
+		expect(page.items.map(u => u.name)).to.deep.equal([
+			"Cool Guy",
+			"Dude Bro",
+		]);
+		expect(page.remaining).to.equal(1);
+
+		// Cursors should not be accepted by other sorts.
 		try {
-			await userQuery.execute(invalidCursor);
+			await DynamicUserQuery.getPage({
+				sort: "score,firstName",
+				cursor: page.cursor,
+			});
 			expect.fail("Promise should have rejected");
 		} catch (err) {
 			if (!is(err, InvalidCursorError)) throw err;
-			expect(err.shortMessage).to.equal(
-				"Cursor value does not match its column type",
-			);
-			expect(err.cause).to.be.null;
-			expect(err.info).to.deep.equal({
-				columnType: ColumnType.Float,
-				value: "foo",
-			});
+			expect(err.shortMessage).to.equal("Cursor is for a different sort");
 		}
 
-		// Try with the suspended value as a non-boolean.
-		invalidCursor = alterCursor(cursor, 0, "foo");
+		// The tiebreaker should not be repeated.
+		page = await DynamicUserQuery.getPage({limit: 1, sort: "lastName,id"});
+		expect(page.items[0].name).to.equal("Dude Bro");
+		expect(decodeObject(page.cursor).v).to.deep.equal(["Bro", 3]);
+
+		// Named sorts should take precedence.
+		page = await DynamicUserQuery.getPage({limit: 1});
+		expect(page.items[0].name).to.equal("Steve Ripberger");
+	});
+
+	it("rejects dynamic sorts with unknown or repeated columns", async function() {
+		for (const [sort, message] of [
+			["-score,role", "Unknown sort column 'role'"],
+			["score,,id", "Unknown sort column ''"],
+			["score,-score", "Duplicate sort column 'score'"],
+		]) {
+			try {
+				// eslint-disable-next-line no-await-in-loop
+				await DynamicUserQuery.getPage({sort});
+				expect.fail("Promise should have rejected");
+			} catch (err) {
+				if (!is(err, UnknownSortError)) throw err;
+				expect(err.shortMessage).to.equal(message);
+				expect(err.info).to.have.property("sort", sort);
+			}
+		}
+
+		// Sort specs are not supported without sortable columns.
 		try {
-			await userQuery.execute(invalidCursor);
+			await UserQuery.getPage({sort: "id"});
 			expect.fail("Promise should have rejected");
 		} catch (err) {
-			if (!is(err, InvalidCursorError)) throw err;
-			expect(err.shortMessage).to.equal(
-				"Cursor value does not match its column type",
-			);
-			expect(err.cause).to.be.null;
-			expect(err.info).to.deep.equal({
-				columnType: ColumnType.Boolean,
-				value: "foo",
-			});
+			if (!is(err, UnknownSortError)) throw err;
+			expect(err.shortMessage).to.equal("Unknown sort: 'id'");
 		}
 	});
 
-	it("supports custom cursor value validation", async function() {
-		// Create a default user query.
-		const qry = new UserQuery();
+	it("supports client filters", async function() {
+		const getNames = async(filter: Record<string, any>) => {
+			const {items} = await FilteringUserQuery.getPage({filter});
+			return items.map(u => u.name);
+		};
+
+		expect(await getNames({score: {gt: 0}})).to.deep.equal([
+			"Terd Ferguson",
+			"Terd McGee",
+		]);
+		expect(await getNames({role: "administrator"})).to.deep.equal([
+			"Steve Ripberger",
+		]);
+		expect(await getNames({favoriteFoodId: {isNull: true}})).to.deep.equal([
+			"Terd McGee",
+			"Cool Guy",
+		]);
+		expect(await getNames({favoriteFoodId: {in: [1, 2]}})).to.deep.equal([
+			"Steve Ripberger",
+			"Terd Ferguson",
+			"Dude Bro",
+		]);
+		expect(await getNames({
+			lastName: {like: "%r%"},
+			score: {lte: 0},
+		})).to.deep.equal(["Steve Ripberger", "Dude Bro"]);
+		expect(await getNames({firstName: "Terd", score: {gt: 0}}))
+			.to.deep.equal(["Terd Ferguson", "Terd McGee"]);
+	});
 
-		// Get a cursor for a default user query.
-		const {cursor} = await qry.execute();
+	it("binds cursors to their filters", async function() {
+		const filter = {firstName: "Terd", score: {gt: 0}};
+		let page = await FilteringUserQuery.getPage({limit: 1, filter});
+		expect(page.items.map(u => u.name)).to.deep.equal(["Terd Ferguson"]);
+		expect(page.remaining).to.equal(1);
 
-		// Try with the role as a value outside the enum.
-		const invalidCursor = alterCursor(cursor, 1, "foo");
-		try {
-			await qry.execute(invalidCursor);
-			expect.fail("Promise should have rejected");
-		} catch (err) {
-			if (!is(err, InvalidCursorError)) throw err;
-			expect(err.shortMessage).to.equal("Invalid cursor value");
-			expect(err.cause).to.be.null;
-			expect(err.info).to.deep.equal({value: "foo"});
+		// The same filter should be accepted, regardless of key order.
+		const {cursor} = page;
+		page = await FilteringUserQuery.getPage({
+			limit: 1,
+			filter: {score: {gt: 0}, firstName: "Terd"},
+			cursor,
+		});
+		expect(page.items.map(u => u.name)).to.deep.equal(["Terd McGee"]);
+		expect(page.remaining).to.equal(0);
+
+		// Any other filter should not.
+		for (const otherFilter of [undefined, {score: {gt: 0}}]) {
+			try {
+				// eslint-disable-next-line no-await-in-loop
+				await FilteringUserQuery.getPage({filter: otherFilter, cursor});
+				expect.fail("Promise should have rejected");
+			} catch (err) {
+				if (!is(err, InvalidCursorError)) throw err;
+				expect(err.shortMessage).to.equal(
+					"Cursor is for a different filter",
+				);
+			}
 		}
 	});
 
-	it("supports custom validation error messages", async function() {
-		// Create a default member query for project 1.
-		const qry = new MemberQuery({}, {projectId: 1});
+	it("keeps client filters with null cursor values", async function() {
+		const options = {
+			sort: "byFavoriteFoodIdNullsFirst",
+			filter: {firstName: "Cool"},
+		};
 
-		// Get a cursor that we will alter for these tests.
-		const {cursor} = await qry.execute();
+		let page = await FilteringUserQuery.getPage(options);
+		expect(page.items.map(u => u.name)).to.deep.equal(["Cool Guy"]);
+		expect(decodeObject(page.cursor).v[0]).to.be.null;
 
-		// Try with the membership role as a value outside the enum.
-		const invalidCursor = alterCursor(cursor, 0, "foo");
+		// Terd McGee, whose null comes next, should still be filtered out.
+		page = await FilteringUserQuery.getPage({...options, cursor: page.cursor});
+		expect(page.items).to.be.empty;
+	});
+
+	it("rejects invalid client filters", async function() {
+		for (const [filter, message] of [
+			["role", "Filter is not an object"],
+			[{suspended: true}, "Unknown filter field 'suspended'"],
+			[
+				{role: {ne: "administrator"}},
+				"Unsupported filter operator 'ne' for field 'role'",
+			],
+			[{role: "superuser"}, "Filter value does not match its type"],
+			[{role: {in: []}}, "Filter value for 'in' must be a non-empty array"],
+			[{score: {gt: "1"}}, "Filter value does not match its type"],
+			[{lastName: {like: 1}}, "Filter value does not match its type"],
+			[
+				{favoriteFoodId: {isNull: "yes"}},
+				"Filter value does not match its type",
+			],
+			[{favoriteFoodId: {in: [1, -2]}}, "Food ids must be positive"],
+			[
+				{createdAt: {gt: 1700000000}},
+				"Filter value does not match its type",
+			],
+		] as [unknown, string][]) {
+			try {
+				// eslint-disable-next-line no-await-in-loop
+				await FilteringUserQuery.getPage({filter: filter as any});
+				expect.fail("Promise should have rejected");
+			} catch (err) {
+				if (!is(err, InvalidFilterError)) throw err;
+				expect(err.shortMessage).to.equal(message);
+			}
+		}
+
+		// Filters are not supported without static filters.
 		try {
-			await qry.execute(invalidCursor);
+			await UserQuery.getPage({filter: {role: "administrator"}});
 			expect.fail("Promise should have rejected");
 		} catch (err) {
-			if (!is(err, InvalidCursorError)) throw err;
-			expect(err.shortMessage).to.equal("Unknown member role 'foo'");
-			expect(err.cause).to.be.null;
-			expect(err.info).to.deep.equal({value: "foo"});
+			if (!is(err, InvalidFilterError)) throw err;
+			expect(err.shortMessage).to.equal("Unknown filter field 'role'");
 		}
 	});
 
-	it("supports ascending sorts with nullable columns", async function() {
-		// Create a query that sorts on a nullable column.
-		const qry = new UserQuery({sort: "byFavoriteFoodId", limit: 2});
+	it("supports fetching pages backward", async function() {
+		const qry = new UserQuery({limit: 2});
 		let items: User[];
 		let remaining: number;
 		let cursor: string;
+		let page: Page<User>;
 
-		// First page.
-		({items, remaining, cursor} = await qry.execute());
+		// Last page, since there is no cursor.
+		page = await qry.execute(null, true);
+		({items, remaining, cursor} = page);
 		expect(items).to.have.length(2);
-		expect(items[0].name).to.equal("Terd Ferguson");
-		expect(items[0].favoriteFoodId).to.equal(1);
-		expect(items[1].name).to.equal("Dude Bro");
-		expect(items[1].favoriteFoodId).to.equal(2);
+		expect(items[0].name).to.equal("Dude Bro");
+		expect(items[1].name).to.equal("Cool Guy");
 		expect(remaining).to.equal(3);
+		expect(cursor).to.equal(page.startCursor);
 
-		// Second page.
-		({items, remaining, cursor} = await qry.execute(cursor));
+		// Previous page.
+		page = await qry.execute(cursor, true);
+		({items, remaining, cursor} = page);
 		expect(items).to.have.length(2);
-		expect(items[0].name).to.equal("Steve Ripberger");
-		expect(items[0].favoriteFoodId).to.equal(2);
-		expect(items[1].name).to.equal("Cool Guy");
-		expect(items[1].favoriteFoodId).to.be.null;
+		expect(items[0].name).to.equal("Terd Ferguson");
+		expect(items[1].name).to.equal("Terd McGee");
 		expect(remaining).to.equal(1);
 
-		// Last page.
-		({items, remaining} = await qry.execute(cursor));
+		// First page.
+		({items, remaining, cursor} = await qry.execute(cursor, true));
 		expect(items).to.have.length(1);
-		expect(items[0].name).to.equal("Terd McGee");
-		expect(items[0].favoriteFoodId).to.be.null;
+		expect(items[0].name).to.equal("Steve Ripberger");
+		expect(remaining).to.equal(0);
+
+		// The end cursor of a backward page goes forward again.
+		({items, remaining} = await qry.execute(page.endCursor));
+		expect(items).to.have.length(2);
+		expect(items[0].name).to.equal("Dude Bro");
+		expect(items[1].name).to.equal("Cool Guy");
+		expect(remaining).to.equal(0);
+
+		// Nothing should come before the first page.
+		({items, remaining} = await qry.execute(cursor, true));
+		expect(items).to.be.empty;
 		expect(remaining).to.equal(0);
 	});
 
-	it("supports descending sorts with nullable columns", async function() {
-		// The same as the previous test, just in reverse.
-		const reversed = new UserQuery({
-			sort: "byFavoriteFoodIdReversed",
-			limit: 2,
-		});
+	it("supports fetching pages backward with nullable columns", async function() {
+		const qry = new UserQuery({sort: "byFavoriteFoodId", limit: 2});
 		let items: User[];
 		let remaining: number;
 		let cursor: string;
 
-		// First page.
-		({items, remaining, cursor} = await reversed.execute());
+		// Last page.
+		({items, remaining, cursor} = await qry.execute(null, true));
 		expect(items).to.have.length(2);
-		expect(items[0].name).to.equal("Terd McGee");
+		expect(items[0].name).to.equal("Cool Guy");
 		expect(items[0].favoriteFoodId).to.be.null;
-		expect(items[1].name).to.equal("Cool Guy");
+		expect(items[1].name).to.equal("Terd McGee");
+		expect(items[1].favoriteFoodId).to.be.null;
+		expect(remaining).to.equal(3);
+
+		// Previous page.
+		({items, remaining, cursor} = await qry.execute(cursor, true));
+		expect(items).to.have.length(2);
+		expect(items[0].name).to.equal("Dude Bro");
+		expect(items[0].favoriteFoodId).to.equal(2);
+		expect(items[1].name).to.equal("Steve Ripberger");
+		expect(items[1].favoriteFoodId).to.equal(2);
+		expect(remaining).to.equal(1);
+
+		// First page.
+		({items, remaining} = await qry.execute(cursor, true));
+		expect(items).to.have.length(1);
+		expect(items[0].name).to.equal("Terd Ferguson");
+		expect(items[0].favoriteFoodId).to.equal(1);
+		expect(remaining).to.equal(0);
+	});
+
+	it("keeps base query restrictions when going backward from nulls", async function() {
+		const qry = new RestrictedUserQuery({sort: "byFavoriteFoodId", limit: 1});
+
+		// Go forward to the null-valued last item.
+		let {items, cursor} = await qry.execute();
+		expect(items.map(u => u.name)).to.deep.equal(["Terd Ferguson"]);
+		({items, cursor} = await qry.execute(cursor));
+		expect(items.map(u => u.name)).to.deep.equal(["Terd McGee"]);
+		expect(decodeObject(cursor).v[0]).to.be.null;
+
+		// Reversed, the sort places nulls first. Only the other Terd is before
+		// the cursor.
+		const page = await qry.execute(cursor, true);
+		expect(page.items.map(u => u.name)).to.deep.equal(["Terd Ferguson"]);
+		expect(page.hasMore).to.be.false;
+	});
+
+	it("supports fetching descending nulls last pages backward", async function() {
+		const options: GetPageOptions = {
+			sort: "byFavoriteFoodNameReversedNullsLast",
+			limit: 2,
+			backward: true,
+		};
+		let page: Page<User>;
+
+		// Last page.
+		page = await UserQuery.getPage(options);
+		expect(page.items).to.have.length(2);
+		expect(page.items[0].name).to.equal("Terd McGee");
+		expect(page.items[0].favoriteFood).to.be.null;
+		expect(page.items[1].name).to.equal("Cool Guy");
+		expect(page.items[1].favoriteFood).to.be.null;
+		expect(page.remaining).to.equal(3);
+
+		// Previous page.
+		options.cursor = page.cursor;
+		page = await UserQuery.getPage(options);
+		expect(page.items).to.have.length(2);
+		expect(page.items[0].name).to.equal("Steve Ripberger");
+		expect(page.items[0].favoriteFood!.name).to.equal("Pizza");
+		expect(page.items[1].name).to.equal("Dude Bro");
+		expect(page.items[1].favoriteFood!.name).to.equal("Pizza");
+		expect(page.remaining).to.equal(1);
+
+		// First page.
+		options.cursor = page.cursor;
+		page = await UserQuery.getPage(options);
+		expect(page.items).to.have.length(1);
+		expect(page.items[0].name).to.equal("Terd Ferguson");
+		expect(page.items[0].favoriteFood!.name).to.equal("Tacos");
+		expect(page.remaining).to.equal(0);
+	});
+
+	it("supports cursors for every item in a page", async function() {
+		const qry = new UserQuery({limit: 3, itemCursors: true});
+
+		// First page.
+		const page = await qry.execute();
+		expect(page.items).to.have.length(3);
+		expect(page.itemCursors).to.have.length(3);
+		expect(page.itemCursors![0]).to.equal(page.startCursor);
+		expect(page.itemCursors![2]).to.equal(page.endCursor);
+
+		// Resume from the middle item.
+		const {items, itemCursors} = await qry.execute(page.itemCursors![1]);
+		expect(items).to.have.length(3);
+		expect(items[0].name).to.equal("Terd McGee");
+		expect(items[1].name).to.equal("Dude Bro");
+		expect(items[2].name).to.equal("Cool Guy");
+		expect(itemCursors).to.have.length(3);
+
+		// Item cursors are not included unless requested.
+		const otherPage = await new UserQuery({limit: 3}).execute();
+		expect(otherPage).to.not.have.property("itemCursors");
+	});
+
+	it("supports fetching pages by page number", async function() {
+		const qry = new UserQuery({limit: 2});
+		let page: Page<User>;
+
+		// Second page.
+		page = await qry.executePage(2);
+		expect(page.items).to.have.length(2);
+		expect(page.items[0].name).to.equal("Terd McGee");
+		expect(page.items[1].name).to.equal("Dude Bro");
+		expect(page.remaining).to.equal(1);
+		expect(page.totalCount).to.equal(5);
+		expect(page.pageNumber).to.equal(2);
+		expect(page.pageCount).to.equal(3);
+
+		// The page's cursor should continue from there.
+		const {items} = await qry.execute(page.cursor);
+		expect(items).to.have.length(1);
+		expect(items[0].name).to.equal("Cool Guy");
+
+		// Last page, through ::getPage.
+		page = await UserQuery.getPage({limit: 2, page: 3});
+		expect(page.items).to.have.length(1);
+		expect(page.items[0].name).to.equal("Cool Guy");
+		expect(page.remaining).to.equal(0);
+		expect(page.totalCount).to.equal(5);
+		expect(page.pageNumber).to.equal(3);
+		expect(page.pageCount).to.equal(3);
+
+		// Past the last page.
+		page = await qry.executePage(4);
+		expect(page.items).to.be.empty;
+		expect(page.remaining).to.equal(0);
+		expect(page.totalCount).to.equal(5);
+		expect(page.pageNumber).to.equal(4);
+		expect(page.pageCount).to.equal(3);
+	});
+
+	it("validates page numbers", async function() {
+		const qry = new UserQuery({limit: 2});
+
+		for (const pageNumber of [0, -1, 1.5]) {
+			try {
+				// eslint-disable-next-line no-await-in-loop
+				await qry.executePage(pageNumber);
+				expect.fail("Promise should have rejected");
+			} catch (err) {
+				if (!is(err, InvalidPageError)) throw err;
+				expect(err.shortMessage).to.equal(
+					`Invalid page number: '${pageNumber}'`,
+				);
+				expect(err.info).to.deep.equal({page: pageNumber});
+			}
+		}
+	});
+
+	it("applies default and maximum limits", async function() {
+		let page = await LimitedUserQuery.getPage();
+		expect(page.items).to.have.length(2);
+		expect(page.items[0].name).to.equal("Steve Ripberger");
+		expect(page.items[1].name).to.equal("Terd Ferguson");
+
+		page = await LimitedUserQuery.getPage({limit: 3});
+		expect(page.items).to.have.length(3);
+
+		// Unspecified limits default to the base class's default limit.
+		expect(new UserQuery().limit).to.equal(1000);
+	});
+
+	it("rejects invalid limits", async function() {
+		for (const limit of [0, -1, 1.5, NaN]) {
+			try {
+				// eslint-disable-next-line no-await-in-loop
+				await LimitedUserQuery.getPage({limit});
+				expect.fail("Promise should have rejected");
+			} catch (err) {
+				if (!is(err, InvalidLimitError)) throw err;
+				expect(err.shortMessage).to.equal(`Invalid limit: '${limit}'`);
+				expect(err.info).to.deep.equal({limit});
+			}
+		}
+
+		// Limits are validated when the paginator is created.
+		expect(() => new LimitedUserQuery({limit: 4}))
+			.to.throw(InvalidLimitError, "Limit exceeds maximum of 3");
+	});
+
+	it("clamps limits when configured", function() {
+		expect(new ClampingUserQuery({limit: 4}).limit).to.equal(3);
+		expect(new ClampingUserQuery({limit: 0}).limit).to.equal(1);
+		expect(new ClampingUserQuery({limit: 2.5}).limit).to.equal(2);
+		expect(() => new ClampingUserQuery({limit: NaN}))
+			.to.throw(InvalidLimitError);
+	});
+
+	it("supports iterating through all pages", async function() {
+		const qry = new UserQuery({limit: 2});
+		const pages: Page<User>[] = [];
+		for await (const page of qry.iteratePages()) pages.push(page);
+		expect(pages.map(p => p.items.map(u => u.name))).to.deep.equal([
+			["Steve Ripberger", "Terd Ferguson"],
+			["Terd McGee", "Dude Bro"],
+			["Cool Guy"],
+		]);
+
+		// Backward from the last page, with a page limit.
+		const names: string[] = [];
+		for await (const user of qry.iterate({
+			cursor: pages[2].startCursor,
+			backward: true,
+			maxPages: 1,
+		})) names.push(user.name);
+		expect(names).to.deep.equal(["Dude Bro", "Terd McGee"]);
+	});
+
+	it("supports iterating through all items with ::iterate", async function() {
+		const names: string[] = [];
+		for await (const user of UserQuery.iterate({limit: 2})) {
+			names.push(user.name);
+		}
+		expect(names).to.deep.equal([
+			"Steve Ripberger",
+			"Terd Ferguson",
+			"Terd McGee",
+			"Dude Bro",
+			"Cool Guy",
+		]);
+	});
+
+	it("skips counts when iterating with static methods", async function() {
+		const getRemaining = async(options: StaticIterateOptions) => {
+			const remaining: number[] = [];
+			for await (const page of UserQuery.iteratePages(options)) {
+				remaining.push(page.remaining);
+			}
+			return remaining;
+		};
+
+		expect(await getRemaining({limit: 2})).to.deep.equal([1, 1, 0]);
+		expect(await getRemaining({limit: 2, count: CountMode.Exact}))
+			.to.deep.equal([3, 1, 0]);
+	});
+
+	it("stops iterating when aborted", async function() {
+		const controller = new AbortController();
+		const pages: Page<User>[] = [];
+		for await (const page of UserQuery.iteratePages({
+			limit: 2,
+			signal: controller.signal,
+		})) {
+			pages.push(page);
+			controller.abort();
+		}
+		expect(pages).to.have.length(1);
+	});
+
+	it("supports streaming all items", async function() {
+		const qry = new UserQuery({limit: 2});
+		const stream = qry.stream();
+		expect(stream.readableObjectMode).to.be.true;
+		expect(stream.readableHighWaterMark).to.equal(2);
+		const users: User[] = [];
+		for await (const user of stream) users.push(user);
+		expect(users.map(u => u.name)).to.deep.equal([
+			"Steve Ripberger",
+			"Terd Ferguson",
+			"Terd McGee",
+			"Dude Bro",
+			"Cool Guy",
+		]);
+
+		// Resume after the third item.
+		const names: string[] = [];
+		const cursor = qry.getCursor(users[2]);
+		for await (const user of UserQuery.stream({limit: 2, cursor})) {
+			names.push(user.name);
+		}
+		expect(names).to.deep.equal(["Dude Bro", "Cool Guy"]);
+	});
+
+	it("emits errors from streams", async function() {
+		try {
+			for await (const user of UserQuery.stream({cursor: "foo"})) {
+				expect.fail(`Unexpected item ${user.name}`);
+			}
+			expect.fail("Stream should have errored");
+		} catch (err) {
+			if (!is(err, InvalidCursorError)) throw err;
+		}
+
+		try {
+			for await (const user of UserQuery.stream({sort: "foo"})) {
+				expect.fail(`Unexpected item ${user.name}`);
+			}
+			expect.fail("Stream should have errored");
+		} catch (err) {
+			if (!is(err, UnknownSortError)) throw err;
+		}
+	});
+
+	it("skips counting when nothing remains after a full page", async function() {
+		const queries: string[] = [];
+		const onQuery = (data: {sql: string}): void => {
+			queries.push(data.sql);
+		};
+		knex.on("query", onQuery);
+		try {
+			let page = await new UserQuery({limit: 5}).execute();
+			expect(page.items).to.have.length(5);
+			expect(page.remaining).to.equal(0);
+			expect(page.hasMore).to.be.false;
+			expect(queries).to.have.length(1);
+
+			page = await new UserQuery({limit: 4}).execute();
+			expect(page.items).to.have.length(4);
+			expect(page.remaining).to.equal(1);
+			expect(page.hasMore).to.be.true;
+			expect(queries).to.have.length(3);
+		} finally {
+			knex.removeListener("query", onQuery);
+		}
+	});
+
+	it("keeps remaining counts consistent with fetched items", async function() {
+		// Simulate the remaining items being deleted before the count query.
+		class ShrinkingUserQuery extends UserQuery {
+			getBaseQuery(): QueryBuilder<User> {
+				const qry = super.getBaseQuery();
+				qry.resultSize = (): Promise<number> => Promise.resolve(0);
+				return qry;
+			}
+		}
+
+		const page = await new ShrinkingUserQuery({limit: 2}).execute();
+		expect(page.items).to.have.length(2);
+		expect(page.remaining).to.equal(1);
+		expect(page.hasMore).to.be.true;
+	});
+
+	it("supports disabling remaining counts", async function() {
+		const qry = new UserQuery({limit: 2, count: CountMode.None});
+		let page: Page<User>;
+
+		// First page.
+		page = await qry.execute();
+		expect(page.items).to.have.length(2);
+		expect(page.remaining).to.equal(1);
+		expect(page.hasMore).to.be.true;
+
+		// Second page.
+		page = await qry.execute(page.cursor);
+		expect(page.items).to.have.length(2);
+		expect(page.remaining).to.equal(1);
+		expect(page.hasMore).to.be.true;
+
+		// Last page.
+		page = await qry.execute(page.cursor);
+		expect(page.items).to.have.length(1);
+		expect(page.remaining).to.equal(0);
+		expect(page.hasMore).to.be.false;
+
+		// Backward from the last page.
+		page = await qry.execute(page.startCursor, true);
+		expect(page.items).to.have.length(2);
+		expect(page.remaining).to.equal(1);
+		expect(page.hasMore).to.be.true;
+
+		// A full page with nothing after it.
+		page = await new UserQuery({limit: 5, count: CountMode.None}).execute();
+		expect(page.items).to.have.length(5);
+		expect(page.remaining).to.equal(0);
+		expect(page.hasMore).to.be.false;
+	});
+
+	it("supports estimated remaining counts", async function() {
+		const qry = new EstimatingUserQuery({
+			limit: 4,
+			count: CountMode.Estimate,
+		});
+		let page: Page<User>;
+
+		// First page.
+		page = await qry.execute();
+		expect(page.items).to.have.length(4);
+		expect(page.remaining).to.equal(6);
+		expect(page.hasMore).to.be.true;
+
+		// Last page, which does not need an estimate.
+		page = await qry.execute(page.cursor);
+		expect(page.items).to.have.length(1);
+		expect(page.remaining).to.equal(0);
+		expect(page.hasMore).to.be.false;
+	});
+
+	it("requires an estimator for estimated remaining counts", async function() {
+		const qry = new UserQuery({limit: 2, count: CountMode.Estimate});
+
+		try {
+			await qry.execute();
+			expect.fail("Promise should have rejected");
+		} catch (err) {
+			if (!is(err, ConfigurationError)) throw err;
+			expect(err.shortMessage).to.equal(
+				"Count estimation requires an #estimateCount implementation",
+			);
+		}
+	});
+
+	it("supports relay-style connections", async function() {
+		const args = {projectId: 1};
+		let connection: Connection<User>;
+
+		// First connection.
+		connection = await getConnection(MemberQuery, {first: 2}, args);
+		expect(connection.edges).to.have.length(2);
+		expect(connection.edges[0].node.name).to.equal("Terd Ferguson");
+		expect(connection.edges[1].node.name).to.equal("Cool Guy");
+		expect(connection.pageInfo).to.deep.equal({
+			hasNextPage: true,
+			hasPreviousPage: false,
+			startCursor: connection.edges[0].cursor,
+			endCursor: connection.edges[1].cursor,
+		});
+
+		// Resume from the first edge.
+		const {cursor} = connection.edges[0];
+		connection = await getConnection(
+			MemberQuery,
+			{first: 2, after: cursor},
+			args,
+		);
+		expect(connection.edges).to.have.length(2);
+		expect(connection.edges[0].node.name).to.equal("Cool Guy");
+		expect(connection.edges[1].node.name).to.equal("Dude Bro");
+		expect(connection.pageInfo.hasNextPage).to.be.true;
+
+		// Go backward from the same edge.
+		connection = await getConnection(
+			MemberQuery,
+			{last: 2, before: connection.edges[1].cursor},
+			args,
+		);
+		expect(connection.edges).to.have.length(2);
+		expect(connection.edges[0].node.name).to.equal("Terd Ferguson");
+		expect(connection.edges[1].node.name).to.equal("Cool Guy");
+		expect(connection.pageInfo.hasNextPage).to.be.false;
+		expect(connection.pageInfo.hasPreviousPage).to.be.false;
+
+		// Last connection.
+		connection = await getConnection(MemberQuery, {last: 2}, args);
+		expect(connection.edges).to.have.length(2);
+		expect(connection.edges[0].node.name).to.equal("Steve Ripberger");
+		expect(connection.edges[1].node.name).to.equal("Terd McGee");
+		expect(connection.pageInfo.hasPreviousPage).to.be.true;
+
+		// Nothing after the last connection.
+		connection = await getConnection(
+			MemberQuery,
+			{after: connection.pageInfo.endCursor},
+			args,
+		);
+		expect(connection.edges).to.be.empty;
+		expect(connection.pageInfo).to.deep.equal({
+			hasNextPage: false,
+			hasPreviousPage: false,
+			startCursor: null,
+			endCursor: null,
+		});
+	});
+
+	it("skips counting for relay-style connections", async function() {
+		const queries: string[] = [];
+		const onQuery = (data: {sql: string}): void => {
+			queries.push(data.sql);
+		};
+		knex.on("query", onQuery);
+		try {
+			const connection = await getConnection(
+				FilteringUserQuery,
+				{first: 1, filter: {role: UserRole.RegularUser}},
+			);
+			expect(connection.edges).to.have.length(1);
+			expect(connection.edges[0].node.name).to.equal("Terd Ferguson");
+			expect(connection.pageInfo.hasNextPage).to.be.true;
+			expect(queries).to.have.length(1);
+
+			// Counting can still be enabled.
+			await getConnection(
+				FilteringUserQuery,
+				{first: 1, count: CountMode.Exact},
+			);
+			expect(queries).to.have.length(3);
+		} finally {
+			knex.removeListener("query", onQuery);
+		}
+	});
+
+	it("returns empty relay-style connections for counts of zero", async function() {
+		const queries: string[] = [];
+		const onQuery = (data: {sql: string}): void => {
+			queries.push(data.sql);
+		};
+		knex.on("query", onQuery);
+		try {
+			for (const connectionArgs of [{first: 0}, {last: 0}]) {
+				// eslint-disable-next-line no-await-in-loop
+				const connection = await getConnection(
+					MemberQuery,
+					connectionArgs,
+					{projectId: 1},
+				);
+				expect(connection).to.deep.equal({
+					edges: [],
+					pageInfo: {
+						hasNextPage: false,
+						hasPreviousPage: false,
+						startCursor: null,
+						endCursor: null,
+					},
+				});
+			}
+			expect(queries).to.be.empty;
+		} finally {
+			knex.removeListener("query", onQuery);
+		}
+	});
+
+	it("validates relay-style connection args", async function() {
+		const args = {projectId: 1};
+
+		// Try combining forward and backward args.
+		try {
+			await getConnection(MemberQuery, {first: 2, last: 2}, args);
+			expect.fail("Promise should have rejected");
+		} catch (err) {
+			if (!is(err, InvalidConnectionArgsError)) throw err;
+			expect(err.shortMessage).to.equal(
+				"Forward and backward connection args cannot be combined",
+			);
+		}
+
+		// Try a count that is not a non-negative integer.
+		try {
+			await getConnection(MemberQuery, {last: -1}, args);
+			expect.fail("Promise should have rejected");
+		} catch (err) {
+			if (!is(err, InvalidConnectionArgsError)) throw err;
+			expect(err.shortMessage).to.equal(
+				"Connection arg 'last' must be a non-negative integer",
+			);
+			expect(err.info).to.deep.equal({last: -1});
+		}
+	});
+
+	it("checks cursor query names and sort sort names", async function() {
+		const userQuery = new UserQuery();
+		const memberQuery = new MemberQuery({}, {projectId: 1});
+		const reverseUserQuery = new UserQuery({sort: "reverse"});
+
+		// Get a cursor for a default user query.
+		const {cursor: userCursor} = await userQuery.execute();
+
+		// Send it to the member query and make sure it fails properly.
+		try {
+			await memberQuery.execute(userCursor);
+			expect.fail("Promise should have rejected");
+		} catch (err) {
+			if (!is(err, InvalidCursorError)) throw err;
+			expect(err.shortMessage).to.equal(
+				"Cursor is for a different query",
+			);
+			expect(err.cause).to.be.null;
+			expect(err.info).to.deep.equal({
+				cursorQuery: UserQuery.name,
+				expectedQuery: MemberQuery.name,
+			});
+		}
+
+		// Send it to the reverse user query and make sure it fails properly.
+		try {
+			await reverseUserQuery.execute(userCursor);
+			expect.fail("Promise should have rejected");
+		} catch (err) {
+			if (!is(err, InvalidCursorError)) throw err;
+			expect(err.shortMessage).to.equal(
+				"Cursor is for a different sort",
+			);
+			expect(err.cause).to.be.null;
+			expect(err.info).to.deep.equal({
+				cursorSort: "default",
+				expectedSort: "reverse",
+			});
+		}
+	});
+
+	it("validates cursor values against column types", async function() {
+		// Create a default user query.
+		const userQuery = new UserQuery();
+
+		// Get a cursor that we will alter for these tests.
+		const {cursor} = await userQuery.execute();
+
+		// Try with the firstName value as a non-string.
+		let invalidCursor = alterCursor(cursor, 3, 42);
+		try {
+			await userQuery.execute(invalidCursor);
+			expect.fail("Promise should have rejected");
+		} catch (err) {
+			if (!is(err, InvalidCursorError)) throw err;
+			expect(err.shortMessage).to.equal(
+				"Cursor value does not match its column type",
+			);
+			expect(err.cause).to.be.null;
+			expect(err.info).to.deep.equal({
+				columnType: ColumnType.String,
+				value: 42,
+			});
+		}
+
+		// Try with the id value as a non-integer.
+		invalidCursor = alterCursor(cursor, 5, 4.2);
+		try {
+			await userQuery.execute(invalidCursor);
+			expect.fail("Promise should have rejected");
+		} catch (err) {
+			if (!is(err, InvalidCursorError)) throw err;
+			expect(err.shortMessage).to.equal(
+				"Cursor value does not match its column type",
+			);
+			expect(err.cause).to.be.null;
+			expect(err.info).to.deep.equal({
+				columnType: ColumnType.Integer,
+				value: 4.2,
+			});
+		}
+
+		// Try with the score value as an non-number.
+		invalidCursor = alterCursor(cursor, 2, "foo");
+		try {
+			await userQuery.execute(invalidCursor);
+			expect.fail("Promise should have rejected");
+		} catch (err) {
+			if (!is(err, InvalidCursorError)) throw err;
+			expect(err.shortMessage).to.equal(
+				"Cursor value does not match its column type",
+			);
+			expect(err.cause).to.be.null;
+			expect(err.info).to.deep.equal({
+				columnType: ColumnType.Float,
+				value: "foo",
+			});
+		}
+
+		// Try with the suspended value as a non-boolean.
+		invalidCursor = alterCursor(cursor, 0, "foo");
+		try {
+			await userQuery.execute(invalidCursor);
+			expect.fail("Promise should have rejected");
+		} catch (err) {
+			if (!is(err, InvalidCursorError)) throw err;
+			expect(err.shortMessage).to.equal(
+				"Cursor value does not match its column type",
+			);
+			expect(err.cause).to.be.null;
+			expect(err.info).to.deep.equal({
+				columnType: ColumnType.Boolean,
+				value: "foo",
+			});
+		}
+	});
+
+	it("rejects cursors created with a different sort configuration", async function() {
+		const qry = new UserQuery({limit: 2});
+
+		// Get a cursor that we will alter for these tests.
+		const {cursor} = await qry.execute();
+
+		// Try with a fingerprint that doesn't match the sort.
+		const staleCursor = alterCursorObject(cursor, {f: "foo"});
+		try {
+			await qry.execute(staleCursor);
+			expect.fail("Promise should have rejected");
+		} catch (err) {
+			if (!is(err, InvalidCursorError)) throw err;
+			expect(err.shortMessage).to.equal("Cursor is stale");
+			expect(err.cause).to.be.null;
+			expect(err.info).to.have.property("cursorFingerprint", "foo");
+			expect(err.info).to.have.property("expectedFingerprint")
+				.that.is.a("string")
+				.that.does.not.equal("foo");
+		}
+
+		// Cursors without fingerprints are still accepted.
+		const legacyCursor = alterCursorObject(cursor, {f: undefined});
+		const {items} = await qry.execute(legacyCursor);
+		expect(items).to.have.length(2);
+		expect(items[0].name).to.equal("Terd McGee");
+		expect(items[1].name).to.equal("Dude Bro");
+	});
+
+	it("fingerprints cursors for empty pages", async function() {
+		const filter = {score: {gt: 1000}};
+		const {items, cursor} = await FilteringUserQuery.getPage({filter});
+		expect(items).to.be.empty;
+		expect(decodeObject(cursor)).to.not.have.property("v");
+		expect(decodeObject(cursor)).to.have.property("f").that.is.a("string");
+
+		const staleCursor = alterCursorObject(cursor, {f: "foo"});
+		try {
+			await FilteringUserQuery.getPage({filter, cursor: staleCursor});
+			expect.fail("Promise should have rejected");
+		} catch (err) {
+			if (!is(err, InvalidCursorError)) throw err;
+			expect(err.shortMessage).to.equal("Cursor is stale");
+		}
+	});
+
+	it("supports cursor expiry", async function() {
+		const qry = new ExpiringUserQuery({limit: 2});
+
+		// Get a cursor and make sure it works.
+		const {cursor} = await qry.execute();
+		const {items} = await qry.execute(cursor);
+		expect(items).to.have.length(2);
+		expect(items[0].name).to.equal("Terd McGee");
+		expect(items[1].name).to.equal("Dude Bro");
+
+		// Try with a cursor that was issued too long ago.
+		const issuedAt = Date.now() - 120000;
+		let invalidCursor = alterCursorObject(cursor, {t: issuedAt});
+		try {
+			await qry.execute(invalidCursor);
+			expect.fail("Promise should have rejected");
+		} catch (err) {
+			if (!is(err, InvalidCursorError)) throw err;
+			expect(err.shortMessage).to.equal("Cursor has expired");
+			expect(err.cause).to.be.null;
+			expect(err.info).to.deep.equal({issuedAt, maxCursorAge: 60000});
+		}
+
+		// Try with a cursor that has no issue time.
+		invalidCursor = alterCursorObject(cursor, {t: undefined});
+		try {
+			await qry.execute(invalidCursor);
+			expect.fail("Promise should have rejected");
+		} catch (err) {
+			if (!is(err, InvalidCursorError)) throw err;
+			expect(err.shortMessage).to.equal("Cursor has no issue time");
+		}
+	});
+
+	it("reissues cursors for empty pages", async function() {
+		const qry = new ExpiringUserQuery({limit: 5});
+		let {cursor} = await qry.execute();
+
+		// Poll the empty tail until well past the original cursor's age, each
+		// time with a cursor that is close to expiring.
+		for (let i = 0; i < 3; i++) {
+			const issuedAt = Date.now() - 50000;
+			cursor = alterCursorObject(cursor, {t: issuedAt});
+			// eslint-disable-next-line no-await-in-loop
+			const page = await qry.execute(cursor);
+			expect(page.items).to.be.empty;
+			expect(decodeObject(page.cursor).t).to.be.above(issuedAt);
+			({cursor} = page);
+		}
+	});
+
+	it("validates the number of cursor values against the sort", async function() {
+		// Create a default user query.
+		const userQuery = new UserQuery();
+
+		// Get a cursor that we will alter for these tests.
+		const {cursor} = await userQuery.execute();
+		const {v: values} = decodeObject(cursor);
+		expect(values).to.have.length(6);
+
+		// Try with too few values.
+		let invalidCursor = alterCursorObject(cursor, {v: values.slice(0, 5)});
+		try {
+			await userQuery.execute(invalidCursor);
+			expect.fail("Promise should have rejected");
+		} catch (err) {
+			if (!is(err, InvalidCursorError)) throw err;
+			expect(err.shortMessage).to.equal(
+				"Cursor has the wrong number of values",
+			);
+			expect(err.cause).to.be.null;
+			expect(err.info).to.deep.equal({cursorCount: 5, expectedCount: 6});
+		}
+
+		// Try with too many values.
+		invalidCursor = alterCursorObject(cursor, {v: [...values, 42]});
+		try {
+			await userQuery.execute(invalidCursor);
+			expect.fail("Promise should have rejected");
+		} catch (err) {
+			if (!is(err, InvalidCursorError)) throw err;
+			expect(err.shortMessage).to.equal(
+				"Cursor has the wrong number of values",
+			);
+			expect(err.cause).to.be.null;
+			expect(err.info).to.deep.equal({cursorCount: 7, expectedCount: 6});
+		}
+	});
+
+	it("supports custom cursor value validation", async function() {
+		// Create a default user query.
+		const qry = new UserQuery();
+
+		// Get a cursor for a default user query.
+		const {cursor} = await qry.execute();
+
+		// Try with the role as a value outside the enum.
+		const invalidCursor = alterCursor(cursor, 1, "foo");
+		try {
+			await qry.execute(invalidCursor);
+			expect.fail("Promise should have rejected");
+		} catch (err) {
+			if (!is(err, InvalidCursorError)) throw err;
+			expect(err.shortMessage).to.equal("Invalid cursor value");
+			expect(err.cause).to.be.null;
+			expect(err.info).to.deep.equal({value: "foo"});
+		}
+	});
+
+	it("supports custom validation error messages", async function() {
+		// Create a default member query for project 1.
+		const qry = new MemberQuery({}, {projectId: 1});
+
+		// Get a cursor that we will alter for these tests.
+		const {cursor} = await qry.execute();
+
+		// Try with the membership role as a value outside the enum.
+		const invalidCursor = alterCursor(cursor, 0, "foo");
+		try {
+			await qry.execute(invalidCursor);
+			expect.fail("Promise should have rejected");
+		} catch (err) {
+			if (!is(err, InvalidCursorError)) throw err;
+			expect(err.shortMessage).to.equal("Unknown member role 'foo'");
+			expect(err.cause).to.be.null;
+			expect(err.info).to.deep.equal({value: "foo"});
+		}
+	});
+
+	it("supports signed cursors", async function() {
+		const qry = new SignedUserQuery({limit: 2});
+
+		// Get a signed cursor and make sure it works.
+		const {cursor} = await qry.execute();
+		const {items} = await qry.execute(cursor);
+		expect(items).to.have.length(2);
+		expect(items[0].name).to.equal("Terd McGee");
+		expect(items[1].name).to.equal("Dude Bro");
+
+		// Try altering the signed cursor.
+		const [payload, signature] = cursor.split(".");
+		let invalidCursor = `${alterCursor(payload, 5, 1)}.${signature}`;
+		try {
+			await qry.execute(invalidCursor);
+			expect.fail("Promise should have rejected");
+		} catch (err) {
+			if (!is(err, InvalidCursorError)) throw err;
+			expect(err.shortMessage).to.equal("Cursor signature is invalid");
+			expect(err.info).to.deep.equal({cursor: invalidCursor});
+		}
+
+		// Try removing the signature.
+		invalidCursor = payload;
+		try {
+			await qry.execute(invalidCursor);
+			expect.fail("Promise should have rejected");
+		} catch (err) {
+			if (!is(err, InvalidCursorError)) throw err;
+			expect(err.shortMessage).to.equal("Cursor is not signed");
+			expect(err.info).to.deep.equal({cursor: invalidCursor});
+		}
+	});
+
+	it("supports rotation of cursor secrets", async function() {
+		const {cursorSecret} = SignedUserQuery;
+		const qry = new SignedUserQuery({limit: 2});
+		let items: User[];
+		let newCursor: string;
+
+		try {
+			// Get a cursor signed with an old secret.
+			SignedUserQuery.cursorSecret = "old secret";
+			const {cursor} = await qry.execute();
+
+			// Make sure it is still accepted alongside the new secret.
+			SignedUserQuery.cursorSecret = ["new secret", "old secret"];
+			({items, cursor: newCursor} = await qry.execute(cursor));
+			expect(items).to.have.length(2);
+			expect(items[0].name).to.equal("Terd McGee");
+			expect(items[1].name).to.equal("Dude Bro");
+
+			// Make sure the new cursor is signed with the new secret.
+			SignedUserQuery.cursorSecret = "new secret";
+			({items} = await qry.execute(newCursor));
+			expect(items).to.have.length(1);
+			expect(items[0].name).to.equal("Cool Guy");
+
+			// Make sure the old cursor is rejected once the old secret is gone.
+			try {
+				await qry.execute(cursor);
+				expect.fail("Promise should have rejected");
+			} catch (err) {
+				if (!is(err, InvalidCursorError)) throw err;
+				expect(err.shortMessage).to.equal("Cursor signature is invalid");
+			}
+		} finally {
+			SignedUserQuery.cursorSecret = cursorSecret;
+		}
+	});
+
+	it("supports encrypted cursors", async function() {
+		const qry = new EncryptedUserQuery({limit: 2});
+
+		// Get an encrypted cursor and make sure it works.
+		const {cursor} = await qry.execute();
+		const {items} = await qry.execute(cursor);
+		expect(items).to.have.length(2);
+		expect(items[0].name).to.equal("Terd McGee");
+		expect(items[1].name).to.equal("Dude Bro");
+
+		// Make sure the cursor is actually opaque.
+		expect(() => decodeObject(cursor)).to.throw();
+
+		// Try altering the encrypted cursor.
+		const first = cursor.startsWith("A") ? "B" : "A";
+		const invalidCursor = first + cursor.slice(1);
+		try {
+			await qry.execute(invalidCursor);
+			expect.fail("Promise should have rejected");
+		} catch (err) {
+			if (!is(err, InvalidCursorError)) throw err;
+			expect(err.shortMessage).to.equal("Cursor could not be decrypted");
+			expect(err.info).to.deep.equal({cursor: invalidCursor});
+		}
+	});
+
+	it("supports rotation of cursor encryption keys", async function() {
+		const {cursorCodec} = EncryptedUserQuery;
+		const qry = new EncryptedUserQuery({limit: 2});
+
+		try {
+			// Get a cursor encrypted with an old key.
+			EncryptedUserQuery.cursorCodec = new EncryptedCursorCodec("old key");
+			const {cursor} = await qry.execute();
+
+			// Make sure it is still accepted alongside the new key.
+			EncryptedUserQuery.cursorCodec = new EncryptedCursorCodec([
+				"new key",
+				"old key",
+			]);
+			const {items} = await qry.execute(cursor);
+			expect(items).to.have.length(2);
+			expect(items[0].name).to.equal("Terd McGee");
+			expect(items[1].name).to.equal("Dude Bro");
+
+			// Make sure it is rejected once the old key is gone.
+			EncryptedUserQuery.cursorCodec = new EncryptedCursorCodec("new key");
+			try {
+				await qry.execute(cursor);
+				expect.fail("Promise should have rejected");
+			} catch (err) {
+				if (!is(err, InvalidCursorError)) throw err;
+				expect(err.shortMessage).to.equal(
+					"Cursor could not be decrypted",
+				);
+			}
+		} finally {
+			EncryptedUserQuery.cursorCodec = cursorCodec;
+		}
+	});
+
+	it("supports custom cursor codecs", async function() {
+		const {cursorCodec} = EncryptedUserQuery;
+		const qry = new EncryptedUserQuery({limit: 2});
+
+		try {
+			EncryptedUserQuery.cursorCodec = new HexCursorCodec();
+
+			// Get a cursor from the custom codec and make sure it works.
+			const {cursor} = await qry.execute();
+			expect(cursor).to.match(/^[0-9a-f]+$/);
+			const {items} = await qry.execute(cursor);
+			expect(items).to.have.length(2);
+			expect(items[0].name).to.equal("Terd McGee");
+			expect(items[1].name).to.equal("Dude Bro");
+
+			// Make sure errors from the codec are passed through.
+			try {
+				await qry.execute("not hex");
+				expect.fail("Promise should have rejected");
+			} catch (err) {
+				if (!is(err, InvalidCursorError)) throw err;
+				expect(err.shortMessage).to.equal(
+					"Cursor is not hex-encoded JSON",
+				);
+			}
+		} finally {
+			EncryptedUserQuery.cursorCodec = cursorCodec;
+		}
+	});
+
+	it("supports ascending sorts with nullable columns", async function() {
+		// Create a query that sorts on a nullable column.
+		const qry = new UserQuery({sort: "byFavoriteFoodId", limit: 2});
+		let items: User[];
+		let remaining: number;
+		let cursor: string;
+
+		// First page.
+		({items, remaining, cursor} = await qry.execute());
+		expect(items).to.have.length(2);
+		expect(items[0].name).to.equal("Terd Ferguson");
+		expect(items[0].favoriteFoodId).to.equal(1);
+		expect(items[1].name).to.equal("Dude Bro");
+		expect(items[1].favoriteFoodId).to.equal(2);
+		expect(remaining).to.equal(3);
+
+		// Second page.
+		({items, remaining, cursor} = await qry.execute(cursor));
+		expect(items).to.have.length(2);
+		expect(items[0].name).to.equal("Steve Ripberger");
+		expect(items[0].favoriteFoodId).to.equal(2);
+		expect(items[1].name).to.equal("Cool Guy");
+		expect(items[1].favoriteFoodId).to.be.null;
+		expect(remaining).to.equal(1);
+
+		// Last page.
+		({items, remaining} = await qry.execute(cursor));
+		expect(items).to.have.length(1);
+		expect(items[0].name).to.equal("Terd McGee");
+		expect(items[0].favoriteFoodId).to.be.null;
+		expect(remaining).to.equal(0);
+	});
+
+	it("supports descending sorts with nullable columns", async function() {
+		// The same as the previous test, just in reverse.
+		const reversed = new UserQuery({
+			sort: "byFavoriteFoodIdReversed",
+			limit: 2,
+		});
+		let items: User[];
+		let remaining: number;
+		let cursor: string;
+
+		// First page.
+		({items, remaining, cursor} = await reversed.execute());
+		expect(items).to.have.length(2);
+		expect(items[0].name).to.equal("Terd McGee");
+		expect(items[0].favoriteFoodId).to.be.null;
+		expect(items[1].name).to.equal("Cool Guy");
 		expect(items[1].favoriteFoodId).to.be.null;
 		expect(remaining).to.equal(3);
 
@@ -494,6 +1891,160 @@ describe("Paginator", function() {
 		expect(remaining).to.equal(0);
 	});
 
+	it("supports sorting by raw expressions", async function() {
+		const qry = new UserQuery({sort: "byNonZeroScore", limit: 2});
+		let page: Page<User>;
+
+		// First page.
+		page = await qry.execute();
+		expect(page.items.map(u => u.name)).to.deep.equal([
+			"Cool Guy",
+			"Dude Bro",
+		]);
+		expect(decodeObject(page.cursor).v).to.deep.equal([null, "Dude", 3]);
+
+		// Second page.
+		page = await qry.execute(page.cursor);
+		expect(page.items.map(u => u.name)).to.deep.equal([
+			"Steve Ripberger",
+			"Terd Ferguson",
+		]);
+		expect(decodeObject(page.cursor).v).to.deep.equal([0.5, "Terd", 2]);
+
+		// Last page.
+		page = await qry.execute(page.cursor);
+		expect(page.items.map(u => u.name)).to.deep.equal(["Terd McGee"]);
+		expect(page.remaining).to.equal(0);
+
+		// Backward from the last page.
+		page = await qry.execute(page.startCursor, true);
+		expect(page.items.map(u => u.name)).to.deep.equal([
+			"Steve Ripberger",
+			"Terd Ferguson",
+		]);
+	});
+
+	it("supports sorting by JSON column paths", async function() {
+		const qry = new UserQuery({sort: "byOverallRank", limit: 2});
+		let page: Page<User>;
+
+		// First page.
+		page = await qry.execute();
+		expect(page.items.map(u => u.name)).to.deep.equal([
+			"Terd Ferguson",
+			"Dude Bro",
+		]);
+		expect(decodeObject(page.cursor).v).to.deep.equal([2, 3]);
+
+		// Second page.
+		page = await qry.execute(page.cursor);
+		expect(page.items.map(u => u.name)).to.deep.equal([
+			"Cool Guy",
+			"Steve Ripberger",
+		]);
+		expect(decodeObject(page.cursor).v).to.deep.equal([3, 1]);
+
+		// Last page.
+		page = await qry.execute(page.cursor);
+		expect(page.items.map(u => u.name)).to.deep.equal(["Terd McGee"]);
+		expect(page.remaining).to.equal(0);
+
+		// Backward from the last page.
+		page = await qry.execute(page.startCursor, true);
+		expect(page.items.map(u => u.name)).to.deep.equal([
+			"Cool Guy",
+			"Steve Ripberger",
+		]);
+	});
+
+	it("round-trips dates through cursors", async function() {
+		const qry = new UserQuery({sort: "byCreatedAt", limit: 2});
+		let page: Page<User>;
+
+		// First page.
+		page = await qry.execute();
+		expect(page.items.map(u => u.name)).to.deep.equal([
+			"Terd McGee",
+			"Cool Guy",
+		]);
+		expect(decodeObject(page.cursor).v).to.deep.equal([
+			1577836800003000,
+			4,
+		]);
+
+		// Second page.
+		page = await qry.execute(page.cursor);
+		expect(page.items.map(u => u.name)).to.deep.equal([
+			"Dude Bro",
+			"Terd Ferguson",
+		]);
+		expect(decodeObject(page.cursor).v).to.deep.equal([
+			1577836800002000,
+			2,
+		]);
+
+		// Last page.
+		page = await qry.execute(page.cursor);
+		expect(page.items.map(u => u.name)).to.deep.equal(["Steve Ripberger"]);
+		expect(page.remaining).to.equal(0);
+
+		// Backward from the last page.
+		page = await qry.execute(page.startCursor, true);
+		expect(page.items.map(u => u.name)).to.deep.equal([
+			"Dude Bro",
+			"Terd Ferguson",
+		]);
+	});
+
+	it("keeps sub-millisecond date strings in cursors", async function() {
+		const qry = new SessionQuery({limit: 1});
+		const ids: number[] = [];
+		let cursor: string|undefined;
+		for (let i = 0; i < 3; i++) {
+			// eslint-disable-next-line no-await-in-loop
+			const page = await qry.execute(cursor);
+			ids.push(...page.items.map(s => s.id));
+			({cursor} = page);
+		}
+		expect(ids).to.deep.equal([3, 1, 2]);
+		expect(decodeObject(cursor as string).v).to.deep.equal([
+			"2020-01-01 00:00:00.001200",
+			2,
+		]);
+	});
+
+	it("supports ascending nulls first sorts", async function() {
+		const qry = new UserQuery({
+			sort: "byFavoriteFoodIdNullsFirst",
+			limit: 2,
+		});
+		let page: Page<User>;
+
+		// First page.
+		page = await qry.execute();
+		expect(page.items.map(u => u.name)).to.deep.equal([
+			"Cool Guy",
+			"Terd McGee",
+		]);
+		expect(page.remaining).to.equal(3);
+
+		// Second page.
+		page = await qry.execute(page.cursor);
+		expect(page.items.map(u => u.name)).to.deep.equal([
+			"Terd Ferguson",
+			"Dude Bro",
+		]);
+		expect(page.remaining).to.equal(1);
+
+		// Back to the first page.
+		page = await qry.execute(page.startCursor, true);
+		expect(page.items.map(u => u.name)).to.deep.equal([
+			"Cool Guy",
+			"Terd McGee",
+		]);
+		expect(page.remaining).to.equal(0);
+	});
+
 	it("supports ascending sorts with nullable related columns", async function() {
 		/*
 		 * Create a query that sorts on a column in a related table where the
@@ -1,26 +1,81 @@
-import {Model, QueryBuilder} from "objection";
+import {Model, ModelClass, QueryBuilder} from "objection";
+import {ArgsError, ArgsValidationFunction, createArgsValidator} from "./args-validator.js";
 import _ from "lodash";
+import {ConcreteFilterDefinition, FilterCondition} from "./concrete-filter-definition.js";
+import {ConcreteSortDescriptor} from "./concrete-sort-descriptor.js";
+import {ConfigurationError} from "./configuration-error.js";
+import {CountMode} from "./count-mode.js";
 import {Cursor} from "./cursor.js";
+import {CursorCodec} from "./cursor-codec.js";
+import {CursorSigner} from "./cursor-signer.js";
+import {FilterDefinition} from "./filter-definition.js";
+import {InvalidArgsError} from "./invalid-args-error.js";
 import {InvalidCursorError} from "./invalid-cursor-error.js";
-import {SortDescriptor} from "./sort-descriptor.js";
+import {InvalidLimitError} from "./invalid-limit-error.js";
+import {InvalidPageError} from "./invalid-page-error.js";
+import {JsonCursorCodec} from "./json-cursor-codec.js";
+import {Readable} from "stream";
+import {SortDescriptor, SortableColumn} from "./sort-descriptor.js";
 import {SortNode} from "./sort-node.js";
 import {UnknownSortError} from "./unknown-sort-error.js";
+import {createDynamicSortNode} from "./create-dynamic-sort-node.js";
+import {createFilterConditions} from "./create-filter-conditions.js";
+import {createFingerprint} from "./create-fingerprint.js";
 import {createSortNode} from "./create-sort-node.js";
+import {getIdDescriptors} from "./get-id-descriptors.js";
 
 /**
  * Paginator instance configuration.
  */
 export interface PaginatorOptions {
 	/**
-	 * The maxiumum number of items to fetch in a page. Defaults to 1000.
+	 * The maxiumum number of items to fetch in a page. Defaults to the static
+	 * defaultLimit of the Paginator subtype.
+	 *
+	 * @remarks
+	 * This must be a positive integer no greater than the static maxLimit, if
+	 * there is one. Otherwise, an InvalidLimitError will be thrown, unless the
+	 * static clampLimit property is set.
 	 */
 	limit?: number;
 
 	/**
 	 * The name of the sort to use, as defined in the static sorts property.
 	 * Defaults to 'default'.
+	 *
+	 * @remarks
+	 * If the Paginator subtype has sortable columns, this may instead be a
+	 * sort spec, such as '-score,firstName'. See the static sortableColumns
+	 * property for more information.
 	 */
 	sort?: string;
+
+	/**
+	 * Set to true to include a cursor for every item in fetched pages.
+	 * Defaults to false.
+	 */
+	itemCursors?: boolean;
+
+	/**
+	 * Determines how items remaining after each page are counted. Defaults to
+	 * 'exact'.
+	 *
+	 * @remarks
+	 * Exact counts require a second query for every full page, which can be
+	 * slow for very large tables. See the CountMode enum for alternatives.
+	 */
+	count?: CountMode;
+
+	/**
+	 * A client-provided filter object, mapping filterable fields to values.
+	 *
+	 * @remarks
+	 * Each value may be a plain object mapping operators to their values, like
+	 * `{ score: { gte: 1, lt: 5 } }`, or any other value as a shortcut for an
+	 * equality check, like `{ role: 'admin' }`. See the static filters
+	 * property for more information.
+	 */
+	filter?: Record<string, any>;
 }
 
 /**
@@ -31,8 +86,61 @@ export interface GetPageOptions extends PaginatorOptions {
 	 * The cursor to resume from, if any.
 	 */
 	cursor?: string|null;
+
+	/**
+	 * Set to true to fetch the page of items *before* the cursor, instead of
+	 * the page after it. Defaults to false.
+	 */
+	backward?: boolean;
+
+	/**
+	 * The number of the page to fetch, starting from 1.
+	 *
+	 * @remarks
+	 * If specified, the page will be fetched with an offset instead of a
+	 * cursor, and the `cursor` and `backward` options will be ignored.
+	 */
+	page?: number;
+}
+
+/**
+ * Options for iterating through all pages of a Paginator.
+ */
+export interface IterateOptions {
+	/**
+	 * The cursor to start from, if any. If omitted, iteration will start from
+	 * the beginning of the sort.
+	 */
+	cursor?: string|null;
+
+	/**
+	 * Set to true to iterate backward from the cursor, instead of forward.
+	 * Defaults to false.
+	 */
+	backward?: boolean;
+
+	/**
+	 * The maximum number of pages to fetch. Defaults to no maximum.
+	 */
+	maxPages?: number;
+
+	/**
+	 * A signal which will end iteration early when aborted.
+	 *
+	 * @remarks
+	 * The signal is checked before each page is fetched, so a query that is
+	 * already in progress will not be interrupted.
+	 */
+	signal?: AbortSignal;
 }
 
+/**
+ * Options for creating a Paginator and iterating through all of its pages in
+ * one call.
+ */
+export interface StaticIterateOptions
+	extends PaginatorOptions, IterateOptions {}
+
 /**
  * Represents the result of a single paginated query.
  */
@@ -44,13 +152,85 @@ export interface Page<T extends Model> {
 
 	/**
 	 * The number of items remaining after this page.
+	 *
+	 * @remarks
+	 * If the page was fetched backward, this is the number of items remaining
+	 * *before* this page instead.
+	 *
+	 * How accurate this is depends on the `count` option. If counting was
+	 * disabled, this will only be 1 if there are more items and 0 if there are
+	 * not. Estimated counts will never be less than 1 if there are more items.
 	 */
 	remaining: number;
 
+	/**
+	 * Indicates whether there are more items after this page, or before it if
+	 * the page was fetched backward.
+	 */
+	hasMore: boolean;
+
 	/**
 	 * The cursor string for getting the next page.
+	 *
+	 * @remarks
+	 * This continues in the same direction the page was fetched, so it will be
+	 * the same as the `endCursor` for forward pages, and the same as the
+	 * `startCursor` for backward ones.
 	 */
 	cursor: string;
+
+	/**
+	 * The cursor string for the first item in the page.
+	 *
+	 * @remarks
+	 * Fetching backward from this cursor will get the previous page. If the
+	 * page is empty, this will be the same as the `endCursor`.
+	 */
+	startCursor: string;
+
+	/**
+	 * The cursor string for the last item in the page.
+	 *
+	 * @remarks
+	 * Fetching forward from this cursor will get the next page. If the page is
+	 * empty, this will be the same as the `startCursor`.
+	 */
+	endCursor: string;
+
+	/**
+	 * Cursor strings for each item in the page, in the same order as the
+	 * items themselves.
+	 *
+	 * @remarks
+	 * This is only included if the `itemCursors` option was set. Fetching
+	 * forward from any of these cursors will get the items after the
+	 * corresponding item.
+	 */
+	itemCursors?: string[];
+
+	/**
+	 * The total number of items in the result set.
+	 *
+	 * @remarks
+	 * This is only included in pages fetched by page number.
+	 */
+	totalCount?: number;
+
+	/**
+	 * The number of the page, starting from 1.
+	 *
+	 * @remarks
+	 * This is only included in pages fetched by page number.
+	 */
+	pageNumber?: number;
+
+	/**
+	 * The total number of pages in the result set.
+	 *
+	 * @remarks
+	 * This is only included in pages fetched by page number.
+	 */
+	pageCount?: number;
 }
 
 /**
@@ -94,12 +274,12 @@ export interface PaginatorConstructor<TModel extends Model, TArgs = undefined> {
  * sort on the static `sorts` property. Any alternate sorting methods should be
  * defined there as well.
  *
- * When defining sorts, you should take care to ensure that the combination of
- * sort values will always produce a deterministic sort order. In other words,
- * the combination of specified columns should always be unique within your
- * database. If you fail to do this, the sort order may vary based on the
- * implementation details of your database, possibly causing inconsistent
- * pagination.
+ * Sorts must always produce a deterministic sort order. In other words, the
+ * combination of sorted columns must always be unique within your database. If
+ * it isn't, the sort order may vary based on the implementation details of your
+ * database, possibly causing inconsistent pagination. To guard against this,
+ * the model's id columns are appended to every sort that doesn't already end
+ * with them. See the static `tiebreaker` property for details.
  *
  * @example
  * The following subtype defines a paginated query on people, sorted by their
@@ -178,11 +358,202 @@ export abstract class Paginator<TModel extends Model, TArgs = undefined> {
 	 */
 	static queryName?: string;
 
+	/**
+	 * A secret used to sign cursors, or an array of such secrets.
+	 *
+	 * @remarks
+	 * If specified, every cursor created by the Paginator subtype will include
+	 * an HMAC signature, and any cursor with a missing or mismatched signature
+	 * will be rejected with an InvalidCursorError. This prevents clients from
+	 * altering the values in their cursors.
+	 *
+	 * To rotate secrets, provide an array with the new secret first. New
+	 * cursors will always be signed with the first secret, but cursors signed
+	 * with any of them will be accepted.
+	 *
+	 * Like any static property, this is inherited by subtypes, so you can set
+	 * it on the Paginator class itself to sign the cursors of every subtype.
+	 */
+	static cursorSecret?: string|string[];
+
+	/**
+	 * The codec used to convert cursors to and from strings.
+	 *
+	 * @remarks
+	 * This defaults to a codec which simply encodes cursors as base64url JSON.
+	 * You can replace it with an EncryptedCursorCodec to make your cursors
+	 * opaque to clients, or with your own implementation of the CursorCodec
+	 * interface.
+	 *
+	 * As with the cursorSecret, you can set this on the Paginator class itself
+	 * to change the codec for every subtype. If a cursor secret is also
+	 * specified, the output of the codec will be signed.
+	 */
+	static cursorCodec: CursorCodec = new JsonCursorCodec();
+
+	/**
+	 * The maximum age of cursors accepted by the Paginator subtype, in
+	 * milliseconds.
+	 *
+	 * @remarks
+	 * If specified, every cursor created by the subtype will include the time
+	 * at which it was issued, and any cursor older than this age will be
+	 * rejected with an InvalidCursorError. Cursors with no issue time at all
+	 * will also be rejected.
+	 *
+	 * By default, cursors do not expire.
+	 */
+	static maxCursorAge?: number;
+
+	/**
+	 * A map from names to columns which clients may sort by dynamically.
+	 *
+	 * @remarks
+	 * If specified, the `sort` option may be a comma-separated list of these
+	 * names instead of a sort name, with each name optionally prefixed by `-`
+	 * to sort that column in descending order. For example, '-score,firstName'
+	 * sorts by score in descending order, then by first name in ascending
+	 * order. Unknown or repeated names will cause an UnknownSortError.
+	 *
+	 * Named sorts from the static sorts property always take precedence, so
+	 * make sure none of your sort names are also valid sort specs.
+	 *
+	 * As with named sorts, the static tiebreaker is appended to every dynamic
+	 * sort, so clients don't need to worry about making their sorts
+	 * deterministic.
+	 */
+	static sortableColumns?: Record<string, SortableColumn|string>;
+
+	/**
+	 * A sort descriptor for a unique column, or an array of descriptors for a
+	 * unique combination of columns, used to make sorts deterministic.
+	 *
+	 * @remarks
+	 * This is appended to every sort, unless the sort already ends with it.
+	 * Descriptors are compared by their value paths, so a sort ending with
+	 * `{ column: 'people.id', valuePath: 'id' }` ends with an 'id' tiebreaker.
+	 * Appended tiebreaker columns take the direction of the sort's last column,
+	 * regardless of the directions specified here.
+	 *
+	 * By default, the tiebreaker is created from the `idColumn` of the model
+	 * returned by `#getBaseQuery`, including composite ids. Columns are
+	 * qualified with the model's table name, and string and number types are
+	 * taken from the model's JSON schema. Otherwise, the 'id' column type is
+	 * used, which accepts both strings and integers. If the model has no id
+	 * columns, a ConfigurationError will be thrown when a sort is first used.
+	 *
+	 * You may set this to an empty array to disable tiebreakers entirely, but
+	 * then you are responsible for making your sorts deterministic yourself.
+	 */
+	static tiebreaker?: SortDescriptor|string|(SortDescriptor|string)[];
+
+	/**
+	 * A map from names to fields which clients may filter by.
+	 *
+	 * @remarks
+	 * If specified, the `filter` option may include any of these names, each
+	 * with a value or a map from operators to values. Each field may be just a
+	 * column name, which allows only equality checks on a string column, or a
+	 * full filter definition which specifies the column type and allowed
+	 * operators.
+	 *
+	 * Filters are validated and applied to the base query before sorting. Any
+	 * problem with a client's filter will cause an InvalidFilterError. Cursors
+	 * include a fingerprint of the filter they were created with, and will be
+	 * rejected if sent back with a different filter.
+	 */
+	static filters?: Record<string, FilterDefinition|string>;
+
+	/**
+	 * Set to true to bind cursors to the Paginator's args, or to an array of
+	 * arg keys to bind cursors to those args only.
+	 *
+	 * @remarks
+	 * If specified, every cursor created by the Paginator subtype will include
+	 * a fingerprint of its args, and any cursor sent back with different args--
+	 * or with no fingerprint at all-- will be rejected with an
+	 * InvalidCursorError. Otherwise, clients who change their args while
+	 * sending an old cursor may silently skip or repeat items.
+	 *
+	 * Args are fingerprinted as JSON, with object keys sorted. If your args
+	 * include things that aren't JSON-compatible, like a request context,
+	 * specify the keys that matter instead. Keys may be dot-separated paths.
+	 *
+	 * By default, cursors are not bound to args.
+	 */
+	static argsFingerprint?: boolean|string[];
+
+	/**
+	 * A JSON schema for the Paginator's args, or a custom function to validate
+	 * them.
+	 *
+	 * @remarks
+	 * TArgs is only a TypeScript type, so nothing checks args at runtime by
+	 * default. If this is specified, args will be validated in the
+	 * constructor, and an InvalidArgsError will be thrown with field-level
+	 * details if they are invalid.
+	 *
+	 * Schemas are validated with Ajv. Since args often come straight from
+	 * query strings, types are coerced and defaults are applied, both of which
+	 * mutate the args in place.
+	 *
+	 * Validation functions should follow the signature
+	 * `(args) => boolean|string|ArgsError[]`. If true is returned, the args are
+	 * considered valid. If false or a string is returned, they are considered
+	 * invalid, and the string will be used as the error message. For
+	 * field-level details, return an array of errors instead.
+	 */
+	static argsSchema?: object|ArgsValidationFunction;
+
+	/**
+	 * The number of items to fetch in a page when no limit is specified.
+	 * Defaults to 1000.
+	 *
+	 * @remarks
+	 * If this exceeds the static maxLimit, the maxLimit will be used instead.
+	 */
+	static defaultLimit = 1000;
+
+	/**
+	 * The largest limit that may be specified for the Paginator subtype.
+	 *
+	 * @remarks
+	 * If specified, larger limits will cause an InvalidLimitError, or will be
+	 * reduced to this value if the static clampLimit property is set.
+	 *
+	 * By default, there is no maximum limit.
+	 */
+	static maxLimit?: number;
+
+	/**
+	 * Set to true to clamp invalid limits instead of rejecting them.
+	 *
+	 * @remarks
+	 * If set, fractional limits will be rounded down, and the result will be
+	 * clamped between 1 and the static maxLimit, if there is one. Limits which
+	 * are not numbers at all will still cause an InvalidLimitError.
+	 *
+	 * Defaults to false.
+	 */
+	static clampLimit = false;
+
 	/**
 	 * Cached sort nodes, created within each subtype the first time it is used.
 	 */
 	private static _sortNodes?: Record<string, SortNode|undefined>;
 
+	/**
+	 * Cached filter definitions, created within each subtype the first time it
+	 * is used.
+	 */
+	private static _filterDefinitions?: Record<string, ConcreteFilterDefinition>;
+
+	/**
+	 * The cached args validator, created within each subtype the first time
+	 * it is used.
+	 */
+	private static _argsValidator?: (args: any) => ArgsError[];
+
 	/**
 	 * The maximum number of items to fetch for a page.
 	 *
@@ -201,11 +572,49 @@ export abstract class Paginator<TModel extends Model, TArgs = undefined> {
 	 */
 	readonly sort: string;
 
+	/**
+	 * Indicates whether fetched pages will include a cursor for every item.
+	 *
+	 * @remarks
+	 * For optimization purposes, this property is read-only. If you need to
+	 * change it, simply create another instance.
+	 */
+	readonly itemCursors: boolean;
+
+	/**
+	 * Determines how items remaining after each page are counted.
+	 *
+	 * @remarks
+	 * For optimization purposes, this property is read-only. If you need to
+	 * change it, simply create another instance.
+	 */
+	readonly count: CountMode;
+
+	/**
+	 * The client-provided filter object, if any.
+	 *
+	 * @remarks
+	 * For optimization purposes, this property is read-only. If you need to
+	 * change the filter, simply create another instance.
+	 */
+	readonly filter?: Record<string, any>;
+
 	/**
 	 * The args provided to the instance, if any.
 	 */
 	args: TArgs;
 
+	/**
+	 * The sort node for the instance's sort, once it has been fetched.
+	 */
+	private _sortNode?: SortNode;
+
+	/**
+	 * The validated conditions from the instance's filter, once they have been
+	 * created.
+	 */
+	private _filterConditions?: FilterCondition[];
+
 	/**
 	 * Creates a Paginator.
 	 *
@@ -213,17 +622,37 @@ export abstract class Paginator<TModel extends Model, TArgs = undefined> {
 	 * Since this class is abstract, you will need to create a subtype before
 	 * you can use this constructor. It will throw if called directly.
 	 *
+	 * The limit will be validated here, and an InvalidLimitError will be
+	 * thrown if it is invalid. Likewise, if the subtype has an args schema,
+	 * the args will be validated here, and an InvalidArgsError will be thrown
+	 * if they are invalid.
+	 *
 	 * @param options - Instance-level configuration options.
 	 * @param rest - Remaining parameters. Will include the paginator args,
 	 *   if any.
 	 */
 	constructor(options: PaginatorOptions = {}, ...rest: If<TArgs>) {
-		const {limit, sort} = options;
+		const {
+			limit,
+			sort,
+			itemCursors,
+			count = CountMode.Exact,
+			filter,
+		} = options;
+		if (!Object.values(CountMode).includes(count)) {
+			throw new ConfigurationError(`Unknown count mode '${count}'`);
+		}
 		Object.defineProperties(this, {
-			limit: {value: limit || 1000, enumerable: true},
+			// eslint-disable-next-line no-underscore-dangle
+			limit: {value: this._cls._resolveLimit(limit), enumerable: true},
 			sort: {value: sort || "default", enumerable: true},
+			itemCursors: {value: Boolean(itemCursors), enumerable: true},
+			count: {value: count, enumerable: true},
+			filter: {value: filter, enumerable: true},
 			args: {value: rest[0], enumerable: true, writable: true},
 		});
+		// eslint-disable-next-line no-underscore-dangle
+		this._cls._validateArgs(this.args);
 	}
 
 	/**
@@ -233,8 +662,11 @@ export abstract class Paginator<TModel extends Model, TArgs = undefined> {
 	 * Like the constructor itself, this method cannot be used except through
 	 * a non-abstract subtype. It will throw if you try.
 	 *
+	 * If a page number is provided, this will invoke `#executePage` instead
+	 * of `#execute`.
+	 *
 	 * @param options - Instance-level configuration options, along with an
-	 *   optional cursor string.
+	 *   optional cursor string or page number.
 	 * @param rest - Remaining parameters. Will include the paginator args, if
 	 * 	 any.
 	 */
@@ -243,7 +675,107 @@ export abstract class Paginator<TModel extends Model, TArgs = undefined> {
 		options?: GetPageOptions,
 		...rest: If<TArgs>
 	): Promise<Page<TModel>> {
-		return new this(options, ...rest).execute(options && options.cursor);
+		const {cursor, backward, page} = options || {};
+		const paginator = new this(options, ...rest);
+		if (!_.isNil(page)) return paginator.executePage(page);
+		return paginator.execute(cursor, backward);
+	}
+
+	/**
+	 * Creates a Paginator and iterates through all of its pages in one call.
+	 *
+	 * @remarks
+	 * Like the constructor itself, this method cannot be used except through
+	 * a non-abstract subtype. It will throw if you try.
+	 *
+	 * Unlike the constructor, the count mode defaults to 'none', since
+	 * iteration has no use for the remaining count.
+	 *
+	 * @param options - Instance-level configuration options, along with
+	 *   iteration options.
+	 * @param rest - Remaining parameters. Will include the paginator args, if
+	 * 	 any.
+	 * @returns An async iterator of pages.
+	 */
+	static iteratePages<TModel extends Model, TArgs = undefined>(
+		this: PaginatorConstructor<TModel, TArgs>,
+		options?: StaticIterateOptions,
+		...rest: If<TArgs>
+	): AsyncIterableIterator<Page<TModel>> {
+		return new this(withIterationDefaults(options), ...rest)
+			.iteratePages(options);
+	}
+
+	/**
+	 * Creates a Paginator and iterates through all of its items in one call.
+	 *
+	 * @remarks
+	 * Like the constructor itself, this method cannot be used except through
+	 * a non-abstract subtype. It will throw if you try.
+	 *
+	 * Unlike the constructor, the count mode defaults to 'none', since
+	 * iteration has no use for the remaining count.
+	 *
+	 * @param options - Instance-level configuration options, along with
+	 *   iteration options.
+	 * @param rest - Remaining parameters. Will include the paginator args, if
+	 * 	 any.
+	 * @returns An async iterator of items.
+	 */
+	static iterate<TModel extends Model, TArgs = undefined>(
+		this: PaginatorConstructor<TModel, TArgs>,
+		options?: StaticIterateOptions,
+		...rest: If<TArgs>
+	): AsyncIterableIterator<TModel> {
+		return new this(withIterationDefaults(options), ...rest)
+			.iterate(options);
+	}
+
+	/**
+	 * Creates a Paginator and streams all of its items in one call.
+	 *
+	 * @remarks
+	 * Like the constructor itself, this method cannot be used except through
+	 * a non-abstract subtype. It will throw if you try.
+	 *
+	 * Unlike the constructor, the count mode defaults to 'none', since
+	 * iteration has no use for the remaining count.
+	 *
+	 * @param options - Instance-level configuration options, along with
+	 *   iteration options.
+	 * @param rest - Remaining parameters. Will include the paginator args, if
+	 * 	 any.
+	 * @returns An object-mode readable stream of items.
+	 */
+	static stream<TModel extends Model, TArgs = undefined>(
+		this: PaginatorConstructor<TModel, TArgs>,
+		options?: StaticIterateOptions,
+		...rest: If<TArgs>
+	): Readable {
+		return new this(withIterationDefaults(options), ...rest)
+			.stream(options);
+	}
+
+	/**
+	 * Converts the values of a filter parsed from a query string to the types
+	 * of the subtype's filter definitions.
+	 *
+	 * @remarks
+	 * Query strings can only contain strings, so a filter like
+	 * `filter[score][gt]=1` would otherwise fail validation against a float
+	 * column. This converts numeric and boolean strings wherever the filter
+	 * definitions call for them. Unknown fields and values that can't be
+	 * converted are left alone, to be rejected when the filter is validated.
+	 *
+	 * @param filter - The filter parsed from a query string.
+	 * @returns A new filter object with converted values.
+	 */
+	static coerceFilter(filter: Record<string, any>): Record<string, any> {
+		const definitions = this._getFilterDefinitions();
+		return _.mapValues(filter, (value, field) => {
+			if (!_.has(definitions, field)) return value;
+			return definitions[field].coerce(value);
+		});
 	}
 
 	/**
@@ -255,6 +787,95 @@ export abstract class Paginator<TModel extends Model, TArgs = undefined> {
 		return this.queryName || this.name;
 	}
 
+	/**
+	 * Gets the signer for cursors created and consumed by this subtype.
+	 * @returns The signer, or undefined if no cursor secret is specified.
+	 */
+	private static _getCursorSigner(): CursorSigner|undefined {
+		const {cursorSecret} = this;
+		if (cursorSecret) return new CursorSigner(_.castArray(cursorSecret));
+	}
+
+	/**
+	 * Determines the limit for an instance from its `limit` option.
+	 *
+	 * @remarks
+	 * This method will throw a ConfigurationError if the static limit
+	 * properties are invalid, or an InvalidLimitError if the provided limit is
+	 * invalid and cannot be clamped.
+	 *
+	 * @param limit - The provided limit, if any.
+	 * @returns The limit to use.
+	 */
+	private static _resolveLimit(limit?: number|null): number {
+		const {defaultLimit, maxLimit, clampLimit} = this;
+		if (maxLimit !== undefined && !(_.isInteger(maxLimit) && maxLimit > 0)) {
+			throw new ConfigurationError(`Invalid maximum limit '${maxLimit}'`);
+		}
+		if (!(_.isInteger(defaultLimit) && defaultLimit > 0)) {
+			throw new ConfigurationError(
+				`Invalid default limit '${defaultLimit}'`,
+			);
+		}
+		if (_.isNil(limit)) {
+			return maxLimit === undefined ?
+				defaultLimit :
+				Math.min(defaultLimit, maxLimit);
+		}
+		let result = limit;
+		if (clampLimit && !_.isNaN(result)) {
+			result = Math.max(Math.trunc(result), 1);
+			if (maxLimit !== undefined) result = Math.min(result, maxLimit);
+		}
+		if (!(_.isInteger(result) && result > 0)) {
+			throw new InvalidLimitError({info: {limit}});
+		}
+		if (maxLimit !== undefined && result > maxLimit) {
+			throw new InvalidLimitError(
+				`Limit exceeds maximum of ${maxLimit}`,
+				{info: {limit, maxLimit}},
+			);
+		}
+		return result;
+	}
+
+	/**
+	 * Validates args against the static argsSchema, if there is one.
+	 *
+	 * @remarks
+	 * The compiled validator is cached on the class itself the first time it
+	 * is used. This method will throw an InvalidArgsError if any problems are
+	 * found.
+	 *
+	 * @param args - The args to validate.
+	 */
+	private static _validateArgs(args: unknown): void {
+		const {argsSchema} = this;
+		if (!argsSchema) return;
+		if (!_.has(this, "_argsValidator")) {
+			this._argsValidator = createArgsValidator(argsSchema);
+		}
+		const validate = this._argsValidator as (args: any) => ArgsError[];
+		const errors = validate(args);
+		if (!_.isEmpty(errors)) throw new InvalidArgsError({info: {errors}});
+	}
+
+	/**
+	 * Creates the concrete tiebreaker descriptors for the subtype.
+	 * @param modelClass - The class of the models being paginated, used to
+	 *   create the default tiebreaker.
+	 * @returns The created descriptors.
+	 */
+	private static _createTiebreaker(
+		modelClass: ModelClass<Model>,
+	): ConcreteSortDescriptor[] {
+		const {tiebreaker} = this;
+		const descriptors = tiebreaker === undefined ?
+			getIdDescriptors(modelClass) :
+			_.castArray(tiebreaker);
+		return descriptors.map(d => new ConcreteSortDescriptor(d));
+	}
+
 	/**
 	 * Creates all of the sort nodes from the static sorts property.
 	 *
@@ -262,10 +883,15 @@ export abstract class Paginator<TModel extends Model, TArgs = undefined> {
 	 * This method will only be called once for a particular subtype. Its
 	 * result will be cached on the class itself.
 	 *
+	 * @param modelClass - The class of the models being paginated.
 	 * @returns The created map from sort names to sort nodes.
 	 */
-	private static _createSortNodes(): Record<string, SortNode> {
-		return this.sorts ? _.mapValues(this.sorts, createSortNode) : {};
+	private static _createSortNodes(
+		modelClass: ModelClass<Model>,
+	): Record<string, SortNode> {
+		if (!this.sorts) return {};
+		const tiebreaker = this._createTiebreaker(modelClass);
+		return _.mapValues(this.sorts, d => createSortNode(d, tiebreaker));
 	}
 
 	/**
@@ -276,14 +902,39 @@ export abstract class Paginator<TModel extends Model, TArgs = undefined> {
 	 * aren't creating them over and over for every request when we know they
 	 * won't change unless the process restarts.
 	 *
+	 * Only sort nodes cached on the class itself are used, since subtypes may
+	 * have different sorts or tiebreakers than the classes they extend.
+	 *
+	 * @param modelClass - The class of the models being paginated.
 	 * @returns A map from sort names to sort nodes.
 	 */
-	private static _getSortNodes(): Record<string, SortNode|undefined> {
-		let nodes = this._sortNodes;
-		if (!nodes) nodes = this._sortNodes = this._createSortNodes();
+	private static _getSortNodes(
+		modelClass: ModelClass<Model>,
+	): Record<string, SortNode|undefined> {
+		let nodes = _.has(this, "_sortNodes") ? this._sortNodes : undefined;
+		if (!nodes) nodes = this._sortNodes = this._createSortNodes(modelClass);
 		return nodes;
 	}
 
+	/**
+	 * Gets the filter definitions for the class.
+	 *
+	 * @remarks
+	 * Like sort nodes, these are cached on the class itself the first time
+	 * they are used, and only definitions cached on the class itself are used.
+	 *
+	 * @returns A map from field names to filter definitions.
+	 */
+	private static _getFilterDefinitions(): Record<string, ConcreteFilterDefinition> {
+		if (!_.has(this, "_filterDefinitions")) {
+			this._filterDefinitions = _.mapValues(
+				this.filters || {},
+				(d, field) => new ConcreteFilterDefinition(field, d),
+			);
+		}
+		return this._filterDefinitions as Record<string, ConcreteFilterDefinition>;
+	}
+
 	/**
 	 * A convenience for accessing the class constructor with all of its type
 	 * information intact.
@@ -309,23 +960,227 @@ export abstract class Paginator<TModel extends Model, TArgs = undefined> {
 	 * For this reason, the `::getPage` static method is included to create and
 	 * execute a query in a single call.
 	 *
+	 * Pages fetched backward are still returned in sort order. Only the items
+	 * selected for the page are different.
+	 *
 	 * @param cursor - The cursor string from the previous page, if any.
+	 * @param backward - Set to true to fetch the items before the cursor,
+	 *   instead of after it. Defaults to false.
 	 * @returns The fetched Page.
 	 */
-	async execute(cursor?: string|null): Promise<Page<TModel>> {
-		const qry = this._getQuery(cursor);
+	async execute(
+		cursor?: string|null,
+		backward = false,
+	): Promise<Page<TModel>> {
+		const qry = this._getQuery(cursor, backward);
+		let items = await qry;
+		const hasMore = items.length > this.limit;
+		if (hasMore) items = items.slice(0, this.limit);
+		if (backward) items.reverse();
+		const remaining = await this._getRemainingCount(
+			qry,
+			items.length,
+			hasMore,
+		);
+		return this._createPage(items, remaining, hasMore, cursor, backward);
+	}
+
+	/**
+	 * Executes the Paginator using an offset instead of a cursor, resolving
+	 * with the fetched Page.
+	 *
+	 * @remarks
+	 * This is meant for interfaces that need to jump to arbitrary pages, which
+	 * keyset pagination cannot do. It uses the same sorts as `#execute`, but
+	 * comes with the usual drawbacks of offset pagination. Items may be
+	 * skipped or repeated if the result set changes between requests, and
+	 * performance will suffer for large page numbers.
+	 *
+	 * Since a total count is needed to determine the number of pages, this
+	 * method always queries for one.
+	 *
+	 * The resulting page still includes cursors, so you can switch to keyset
+	 * pagination from it at any time.
+	 *
+	 * @param pageNumber - The number of the page to fetch, starting from 1.
+	 * @returns The fetched Page.
+	 */
+	async executePage(pageNumber: number): Promise<Page<TModel>> {
+		if (!_.isInteger(pageNumber) || pageNumber < 1) {
+			throw new InvalidPageError({info: {page: pageNumber}});
+		}
+
+		const offset = (pageNumber - 1) * this.limit;
+		const qry = this._getQuery();
+		qry.offset(offset);
 		const items = await qry;
+		const totalCount = await qry.resultSize();
+		const hasMore = items.length > this.limit;
+		if (hasMore) items.pop();
+		const remaining = Math.max(
+			totalCount - offset - items.length,
+			hasMore ? 1 : 0,
+		);
+		return {
+			...this._createPage(items, remaining, hasMore),
+			totalCount,
+			pageNumber,
+			pageCount: Math.ceil(totalCount / this.limit),
+		};
+	}
+
+	/**
+	 * Iterates through all pages of the paginated query.
+	 *
+	 * @remarks
+	 * Each page is fetched with `#execute`, using the cursor from the page
+	 * before it. Pages are only fetched as they are consumed, so a slow
+	 * consumer will never cause pages to pile up in memory.
+	 *
+	 * Iteration ends after the last page, after the maximum number of pages,
+	 * or when the provided signal is aborted, whichever comes first. If there
+	 * are no items at all, no pages will be produced.
+	 *
+	 * Each page is counted according to the instance's count mode, so unless
+	 * you need the remaining count, create the instance with a count mode of
+	 * 'none' to avoid counting for every page.
+	 *
+	 * @param options - Iteration options.
+	 * @returns An async iterator of pages.
+	 */
+	async *iteratePages(
+		options: IterateOptions = {},
+	): AsyncIterableIterator<Page<TModel>> {
+		const {backward, maxPages = Infinity, signal} = options;
+		let {cursor} = options;
+		for (let pageCount = 0; pageCount < maxPages; pageCount++) {
+			if (signal && signal.aborted) return;
+			// eslint-disable-next-line no-await-in-loop
+			const page = await this.execute(cursor, backward);
+			if (!_.isEmpty(page.items)) yield page;
+			if (!page.hasMore) return;
+			({cursor} = page);
+		}
+	}
+
+	/**
+	 * Iterates through all items of the paginated query.
+	 *
+	 * @remarks
+	 * This is a convenience wrapper around `#iteratePages`, and behaves the
+	 * same way. Items from backward pages will be produced in reverse sort
+	 * order, moving away from the cursor.
+	 *
+	 * @param options - Iteration options.
+	 * @returns An async iterator of items.
+	 */
+	async *iterate(
+		options: IterateOptions = {},
+	): AsyncIterableIterator<TModel> {
+		for await (const page of this.iteratePages(options)) {
+			if (options.backward) {
+				yield* [...page.items].reverse();
+			} else {
+				yield* page.items;
+			}
+		}
+	}
+
+	/**
+	 * Streams all items of the paginated query.
+	 *
+	 * @remarks
+	 * This is a stream wrapper around `#iterate`, and accepts the same
+	 * options. The stream's high water mark is set to the limit, so it will
+	 * buffer at most one page of items ahead of its consumer.
+	 *
+	 * Any error that occurs while fetching pages, such as an InvalidCursorError
+	 * or an UnknownSortError, will destroy the stream and be emitted as an
+	 * 'error' event.
+	 *
+	 * To resume a stream that ended early, pass the cursor for the last item
+	 * consumed-- as obtained from `#getCursor`-- as the `cursor` option.
+	 *
+	 * @param options - Iteration options.
+	 * @returns An object-mode readable stream of items.
+	 */
+	stream(options: IterateOptions = {}): Readable {
+		return Readable.from(this.iterate(options), {
+			objectMode: true,
+			highWaterMark: this.limit,
+		});
+	}
+
+	/**
+	 * Creates a Page from fetched items.
+	 *
+	 * @remarks
+	 * This handles the creation of all of the page's cursors. If the page is
+	 * empty, its start and end cursors will both be the provided cursor, or a
+	 * cursor with no values if none was provided.
+	 *
+	 * The provided cursor is reissued rather than returned as-is, so that it
+	 * gets a fresh issue time and is serialized with the current cursor secret
+	 * and codec. Otherwise, clients polling an empty page would eventually see
+	 * their cursor expire, and cursors from retired secrets would live on.
+	 *
+	 * @param items - The fetched items, in sort order.
+	 * @param remaining - The number of items remaining after the page.
+	 * @param hasMore - Indicates whether an extra item was fetched beyond the
+	 *   limit.
+	 * @param cursor - The cursor string the page was fetched from, if any.
+	 * @param backward - Indicates whether the page was fetched backward.
+	 * @returns The created Page.
+	 */
+	private _createPage(
+		items: TModel[],
+		remaining: number,
+		hasMore: boolean,
+		cursor?: string|null,
+		backward = false,
+	): Page<TModel> {
+		const firstItem = _.first(items);
 		const lastItem = _.last(items);
-		let remaining = 0;
+		let startCursor: string;
+		let endCursor: string;
+
+		if (firstItem && lastItem) {
+			startCursor = this._createCursorString(firstItem);
+			endCursor = this._createCursorString(lastItem);
+		} else {
+			startCursor = endCursor = cursor ?
+				this._reissueCursorString(cursor) :
+				this._createCursorString();
+		}
 
-		if (lastItem) {
-			remaining = await this._getRemainingCount(qry, items.length);
-			cursor = this._createCursorString(lastItem);
-		} else if (!cursor) {
-			cursor = this._createCursorString();
+		const page: Page<TModel> = {
+			items,
+			remaining,
+			hasMore,
+			cursor: backward ? startCursor : endCursor,
+			startCursor,
+			endCursor,
+		};
+		if (this.itemCursors) {
+			page.itemCursors = items.map(item => this._createCursorString(item));
 		}
+		return page;
+	}
 
-		return {items, remaining, cursor};
+	/**
+	 * Creates a cursor string which resumes pagination after the provided
+	 * item.
+	 *
+	 * @remarks
+	 * Pages only include cursors for their first and last items, but any item
+	 * fetched by the paginator can be used as a cursor. This is useful when
+	 * clients need to resume from somewhere in the middle of a page.
+	 *
+	 * @param item - The model instance to resume from.
+	 * @returns The created cursor string.
+	 */
+	getCursor(item: TModel): string {
+		return this._createCursorString(item);
 	}
 
 	/**
@@ -336,13 +1191,101 @@ export abstract class Paginator<TModel extends Model, TArgs = undefined> {
 	 * does not exist. This means that the sort name is not actually checked
 	 * until you actually attempt to execute the paginator.
 	 *
+	 * The node is cached on the instance, since dynamic sort nodes are not
+	 * cached on the class.
+	 *
 	 * @returns The fetched sort node.
 	 */
 	private _getSortNode(): SortNode {
+		let node = this._sortNode;
+		if (!node) node = this._sortNode = this._createSortNode();
+		return node;
+	}
+
+	/**
+	 * Creates or fetches the sort node corresponding to the instance's sort
+	 * name.
+	 *
+	 * @remarks
+	 * Named sorts are fetched from the class's cached sort nodes. Anything
+	 * else is treated as a sort spec if the class has sortable columns, in
+	 * which case a new node is created for it. Since sort specs come from
+	 * clients, these nodes are not cached on the class.
+	 *
+	 * The base query is only used here to find the model class for the
+	 * default tiebreaker. It is never executed.
+	 *
+	 * @returns The sort node.
+	 */
+	private _createSortNode(): SortNode {
+		const {_cls: cls, sort} = this;
+		const modelClass = this.getBaseQuery().modelClass();
 		// eslint-disable-next-line no-underscore-dangle
-		const node = this._cls._getSortNodes()[this.sort];
+		const nodes = cls._getSortNodes(modelClass);
+		const node = _.has(nodes, sort) ? nodes[sort] : undefined;
 		if (node) return node;
-		throw new UnknownSortError({info: {sort: this.sort}});
+		if (cls.sortableColumns) {
+			return createDynamicSortNode(
+				sort,
+				cls.sortableColumns,
+				// eslint-disable-next-line no-underscore-dangle
+				cls._createTiebreaker(modelClass),
+			);
+		}
+		throw new UnknownSortError({info: {sort}});
+	}
+
+	/**
+	 * Gets the validated conditions from the instance's filter.
+	 *
+	 * @remarks
+	 * This method will throw an InvalidFilterError if the filter is invalid.
+	 * Like the sort name, the filter is not checked until you actually attempt
+	 * to execute the paginator.
+	 *
+	 * @returns The filter conditions, which will be empty if there is no
+	 *   filter.
+	 */
+	private _getFilterConditions(): FilterCondition[] {
+		let conditions = this._filterConditions;
+		if (!conditions) {
+			conditions = this._filterConditions = createFilterConditions(
+				this.filter,
+				// eslint-disable-next-line no-underscore-dangle
+				this._cls._getFilterDefinitions(),
+			);
+		}
+		return conditions;
+	}
+
+	/**
+	 * Creates a fingerprint of the instance's filter, for inclusion in
+	 * cursors.
+	 * @returns The fingerprint, or undefined if there are no filter
+	 *   conditions.
+	 */
+	private _getFilterFingerprint(): string|undefined {
+		const conditions = this._getFilterConditions();
+		if (_.isEmpty(conditions)) return undefined;
+		return createFingerprint(conditions.map(c => [
+			c.definition.field,
+			c.operator,
+			c.value,
+		]));
+	}
+
+	/**
+	 * Creates a fingerprint of the instance's args, for inclusion in cursors.
+	 * @returns The fingerprint, or undefined if the subtype does not bind
+	 *   cursors to args.
+	 */
+	private _getArgsFingerprint(): string|undefined {
+		const {argsFingerprint} = this._cls;
+		if (!argsFingerprint) return undefined;
+		const args = argsFingerprint === true ?
+			this.args :
+			_.pick(this.args, argsFingerprint);
+		return createFingerprint(args === undefined ? null : args);
 	}
 
 	/**
@@ -358,16 +1301,28 @@ export abstract class Paginator<TModel extends Model, TArgs = undefined> {
 	 * create cursors for initial queries that come back empty, meaning there's
 	 * nothing that matches it yet.
 	 *
+	 * All cursors will include a fingerprint of the sort configuration, of the
+	 * filter, if there is one, and of the args, if the subtype binds cursors to
+	 * them. If the subtype has a maximum cursor age, they will also include the
+	 * time at which they were issued.
+	 *
 	 * @param item - The model instance to resume from, if any.
 	 * @returns The created cursor object.
 	 */
 	private _createCursor(item?: TModel): Cursor {
-		return new Cursor(
+		const {_cls: cls} = this;
+		const cursor = new Cursor(
 			// eslint-disable-next-line no-underscore-dangle
-			this._cls._getQueryName(),
+			cls._getQueryName(),
 			this.sort,
-			item && this._getSortNode().getCursorValues(item),
 		);
+		const node = this._getSortNode();
+		if (item) cursor.values = node.getCursorValues(item);
+		cursor.fingerprint = node.getFingerprint();
+		cursor.filterFingerprint = this._getFilterFingerprint();
+		cursor.argsFingerprint = this._getArgsFingerprint();
+		if (cls.maxCursorAge !== undefined) cursor.issuedAt = Date.now();
+		return cursor;
 	}
 
 	/**
@@ -375,12 +1330,38 @@ export abstract class Paginator<TModel extends Model, TArgs = undefined> {
 	 *
 	 * @remarks
 	 * This method is the same as #_createCursor, except that it serializes
-	 * the cursor object before returning it.
+	 * the cursor object before returning it, using the subtype's cursor codec.
+	 * The result will be signed if the subtype has a cursor secret.
 	 *
 	 * @param item - The model instance to resume from, if any.
 	 */
 	private _createCursorString(item?: TModel): string {
-		return this._createCursor(item).serialize();
+		return this._serializeCursor(this._createCursor(item));
+	}
+
+	/**
+	 * Parses a cursor string and serializes it again, updating its issue time
+	 * if the subtype has a maximum cursor age.
+	 * @param str - The encoded cursor string.
+	 * @returns The reissued cursor string.
+	 */
+	private _reissueCursorString(str: string): string {
+		const cursor = this._parseCursor(str);
+		if (this._cls.maxCursorAge !== undefined) cursor.issuedAt = Date.now();
+		return this._serializeCursor(cursor);
+	}
+
+	/**
+	 * Serializes a cursor object using the subtype's cursor codec, signing it
+	 * if the subtype has a cursor secret.
+	 * @param cursor - The cursor object.
+	 * @returns The serialized cursor string.
+	 */
+	private _serializeCursor(cursor: Cursor): string {
+		const {_cls: cls} = this;
+		// eslint-disable-next-line no-underscore-dangle
+		const signer = cls._getCursorSigner();
+		return cursor.serialize(cls.cursorCodec, signer);
 	}
 
 	/**
@@ -388,8 +1369,17 @@ export abstract class Paginator<TModel extends Model, TArgs = undefined> {
 	 *
 	 * @remarks
 	 * This method is responsible for checking the query name and sort name of
-	 * the provided cursor. It will throw an InvalidCursorError if any problems
-	 * are found.
+	 * the provided cursor, as well as its sort fingerprint, filter and args
+	 * fingerprints, number of values, and age. It will throw an
+	 * InvalidCursorError if any problems are found.
+	 *
+	 * The values themselves are validated later, as they are applied to the
+	 * query.
+	 *
+	 * Cursors without a sort fingerprint are still accepted, since they may
+	 * have been created before fingerprints existed. Every cursor created by
+	 * this version has one, so only a client could remove it, which signing
+	 * cursors will prevent.
 	 *
 	 * @param cursor - The unmutated cursor object.
 	 */
@@ -416,16 +1406,100 @@ export abstract class Paginator<TModel extends Model, TArgs = undefined> {
 			});
 		}
 
+		const node = this._getSortNode();
+		const fingerprint = node.getFingerprint();
+		if (
+			cursor.fingerprint !== undefined &&
+			cursor.fingerprint !== fingerprint
+		) {
+			throw new InvalidCursorError({
+				shortMessage: "Cursor is stale",
+				info: {
+					cursorFingerprint: cursor.fingerprint,
+					expectedFingerprint: fingerprint,
+				},
+			});
+		}
+
+		const filterFingerprint = this._getFilterFingerprint();
+		if (cursor.filterFingerprint !== filterFingerprint) {
+			throw new InvalidCursorError({
+				shortMessage: "Cursor is for a different filter",
+				info: {
+					cursorFilterFingerprint: cursor.filterFingerprint,
+					expectedFilterFingerprint: filterFingerprint,
+				},
+			});
+		}
+
+		const argsFingerprint = this._getArgsFingerprint();
+		if (
+			argsFingerprint !== undefined &&
+			cursor.argsFingerprint !== argsFingerprint
+		) {
+			throw new InvalidCursorError({
+				shortMessage: "Cursor is for different arguments",
+				info: {
+					cursorArgsFingerprint: cursor.argsFingerprint,
+					expectedArgsFingerprint: argsFingerprint,
+				},
+			});
+		}
+
+		const {values} = cursor;
+		const expectedCount = node.getDescriptors().length;
+		if (values && values.length !== expectedCount) {
+			throw new InvalidCursorError({
+				shortMessage: "Cursor has the wrong number of values",
+				info: {
+					cursorCount: values.length,
+					expectedCount,
+				},
+			});
+		}
+
+		this._validateCursorAge(cursor);
 		return cursor;
 	}
 
+	/**
+	 * Checks the age of a cursor object against the subtype's maximum cursor
+	 * age, if it has one.
+	 *
+	 * @remarks
+	 * This method will throw an InvalidCursorError if the cursor has expired
+	 * or has no issue time.
+	 *
+	 * @param cursor - The unmutated cursor object.
+	 */
+	private _validateCursorAge(cursor: Cursor): void {
+		const {maxCursorAge} = this._cls;
+		if (maxCursorAge === undefined) return;
+
+		const {issuedAt} = cursor;
+		if (issuedAt === undefined) {
+			throw new InvalidCursorError("Cursor has no issue time");
+		}
+
+		const age = Date.now() - issuedAt;
+		if (age > maxCursorAge) {
+			throw new InvalidCursorError({
+				shortMessage: "Cursor has expired",
+				info: {issuedAt, maxCursorAge},
+			});
+		}
+	}
+
 	/**
 	 * Parses and validates a cursor string.
 	 * @param str - The encoded cursor string.
 	 * @returns The parsed cursor.
 	 */
 	private _parseCursor(str: string): Cursor {
-		return this._validateCursor(Cursor.parse(str));
+		const {_cls: cls} = this;
+		// eslint-disable-next-line no-underscore-dangle
+		const signer = cls._getCursorSigner();
+		return this._validateCursor(Cursor.parse(str, cls.cursorCodec, signer));
 	}
 
 	/**
@@ -444,11 +1518,36 @@ export abstract class Paginator<TModel extends Model, TArgs = undefined> {
 	 * @remarks
 	 * Note that this method mutates the query builder.
 	 *
+	 * If fetching backward, the reversed sort node is applied instead, which
+	 * selects items before the cursor in reverse order.
+	 *
 	 * @param qry - The query builder to mutate.
 	 * @param cursor - The cursor string from the last page, if any.
+	 * @param backward - Indicates whether the page is being fetched backward.
 	 */
-	private _applySortNode(qry: QueryBuilder<TModel>, cursor?: string|null): void {
-		this._getSortNode().apply(qry, this._getCursorValues(cursor));
+	private _applySortNode(
+		qry: QueryBuilder<TModel>,
+		cursor?: string|null,
+		backward = false,
+	): void {
+		let node = this._getSortNode();
+		if (backward) node = node.reverse();
+		node.apply(qry, this._getCursorValues(cursor));
+	}
+
+	/**
+	 * Applies the filter conditions for this paginator instance to the
+	 * provided Objection query builder.
+	 *
+	 * @remarks
+	 * Note that this method mutates the query builder.
+	 *
+	 * @param qry - The query builder to mutate.
+	 */
+	private _applyFilters(qry: QueryBuilder<TModel>): void {
+		for (const {definition, operator, value} of this._getFilterConditions()) {
+			definition.apply(qry, operator, value);
+		}
 	}
 
 	/**
@@ -456,12 +1555,16 @@ export abstract class Paginator<TModel extends Model, TArgs = undefined> {
 	 * query builder.
 	 *
 	 * @remarks
+	 * This will always fetch one extra item, so that we can tell whether there
+	 * are more items without a second query. The extra item is trimmed off
+	 * before the page is returned.
+	 *
 	 * Note that this method mutates the query builder.
 	 *
 	 * @param qry - The query builder to mutate.
 	 */
 	private _applyLimit(qry: QueryBuilder<TModel>): void {
-		qry.limit(this.limit);
+		qry.limit(this.limit + 1);
 	}
 
 	/**
@@ -470,14 +1573,19 @@ export abstract class Paginator<TModel extends Model, TArgs = undefined> {
 	 * @remarks
 	 * This is called during #execute to create the full query builder to get
 	 * the page, before executing. It fetches the user-defined base query and
-	 * applies both the sort node and the limit to it.
+	 * applies the filter conditions, the sort node, and the limit to it.
 	 *
 	 * @param cursor - The cursor string from the last page, if any.
+	 * @param backward - Indicates whether the page is being fetched backward.
 	 * @returns The final query to execute.
 	 */
-	private _getQuery(cursor?: string|null): QueryBuilder<TModel> {
+	private _getQuery(
+		cursor?: string|null,
+		backward = false,
+	): QueryBuilder<TModel> {
 		const qry = this.getBaseQuery();
-		this._applySortNode(qry, cursor);
+		this._applyFilters(qry);
+		this._applySortNode(qry, cursor, backward);
 		this._applyLimit(qry);
 		return qry;
 	}
@@ -497,19 +1605,66 @@ export abstract class Paginator<TModel extends Model, TArgs = undefined> {
 	 *
 	 * Additionally, performing the queries in series allows us to do other
 	 * optimizations, such as eliminating the resultSize query entirely
-	 * depending on the number of items fetched. If got back fewer items than
-	 * the limit, for example, we can assume that we've reached the end of the
-	 * result set and just return zero without doing a second query.
+	 * depending on the number of items fetched. If we didn't get back the extra
+	 * item fetched by `#_applyLimit`, we can assume that we've reached the end
+	 * of the result set and just return zero without doing a second query.
+	 *
+	 * The count mode can eliminate the resultSize query as well. If counting is
+	 * disabled, we simply return 1 to indicate that there are more items. If
+	 * counting is estimated, we invoke the estimator instead.
+	 *
+	 * Since the count is a separate query, items may have been deleted since
+	 * the page was fetched. Counts are never less than 1 when we know there
+	 * are more items, so they can't contradict the page's `hasMore`.
 	 *
 	 * @param qry - The original query builder, *after* execution.
 	 * @param itemCount - The nubmer of items found for this page.
+	 * @param hasMore - Indicates whether an extra item was fetched beyond the
+	 *   limit.
 	 */
 	private async _getRemainingCount(
 		qry: QueryBuilder<TModel>,
 		itemCount: number,
+		hasMore: boolean,
 	): Promise<number> {
-		if (itemCount < this.limit) return 0;
-		return await qry.resultSize() - itemCount;
+		if (!hasMore) return 0;
+		switch (this.count) {
+			case CountMode.None:
+				return 1;
+			case CountMode.Estimate: {
+				const estimate = await this.estimateCount(
+					qry.clone().clear(/orderBy|offset|limit/),
+				);
+				return Math.max(estimate - itemCount, 1);
+			}
+			default:
+				return Math.max(await qry.resultSize() - itemCount, 1);
+		}
+	}
+
+	/**
+	 * Estimates the number of items matched by a query.
+	 *
+	 * @remarks
+	 * This is used when the `count` option is set to 'estimate', and must be
+	 * overridden in order to use that mode. It will throw a ConfigurationError
+	 * otherwise.
+	 *
+	 * The provided query is the paginated query with its order, offset, and
+	 * limit removed. It will match every item remaining after the cursor,
+	 * including those in the page that was just fetched. You might, for
+	 * example, use it to get a row estimate from the database's query planner.
+	 * Or you could ignore it entirely and return an estimated size for the
+	 * whole table, if that's good enough for your purposes.
+	 *
+	 * @param qry - The query for which to estimate a count.
+	 * @returns The estimated count, or a promise that resolves with it.
+	 */
+	// eslint-disable-next-line class-methods-use-this, @typescript-eslint/no-unused-vars
+	estimateCount(qry: QueryBuilder<TModel>): Promise<number>|number {
+		throw new ConfigurationError(
+			"Count estimation requires an #estimateCount implementation",
+		);
 	}
 
 	/**
@@ -530,3 +1685,14 @@ export abstract class Paginator<TModel extends Model, TArgs = undefined> {
 	 */
 	abstract getBaseQuery(): QueryBuilder<TModel>;
 }
+
+/**
+ * Applies defaults for Paginators created only to be iterated through.
+ * @param options - Instance-level configuration options, if any.
+ * @returns A new options object, with the count mode defaulting to 'none'.
+ */
+function withIterationDefaults(
+	options: StaticIterateOptions = {},
+): StaticIterateOptions {
+	return _.defaults({}, options, {count: CountMode.None});
+}
@@ -0,0 +1,68 @@
+import {Event} from "./test-utils/event.js";
+import {EventQuery} from "./test-utils/event-query.js";
+import {Page} from "./index.js";
+import {decodeObject} from "@batterii/encode-object";
+import {expect} from "chai";
+import {knexSnakeCaseMappers} from "objection";
+import {newDb} from "pg-mem";
+
+/*
+ * These tests run against pg-mem, an in-memory Postgres emulator, to cover
+ * behavior that differs between database drivers. pg-mem can't compare row
+ * values with bound parameters, so the sorts used here must avoid them. Row
+ * value comparisons are run against SQLite in the SortNode tests instead.
+ */
+describe("Paginator (Postgres)", function() {
+	let knex: any; // Knex typings are stupid.
+
+	before(async function() {
+		knex = newDb().adapters.createKnex(0, knexSnakeCaseMappers());
+		Event.knex(knex);
+
+		await knex.schema.createTable("events", (table: any) => {
+			table.increments("id").primary();
+			table.string("name").notNullable();
+			table.timestamp("happenedAt", {useTz: true}).notNullable();
+		});
+
+		await Event.query().insert([
+			{name: "first", happenedAt: new Date("2020-01-01T00:00:00.001Z")},
+			{name: "second", happenedAt: new Date("2020-01-01T00:00:00.002Z")},
+			{name: "third", happenedAt: new Date("2020-01-01T00:00:00.002Z")},
+			{name: "fourth", happenedAt: new Date("2020-01-01T00:00:00.003Z")},
+		]);
+	});
+
+	after(async function() {
+		await knex.destroy();
+	});
+
+	it("round-trips dates through cursors", async function() {
+		const qry = new EventQuery({limit: 2});
+		let page: Page<Event>;
+
+		// First page.
+		page = await qry.execute();
+		expect(page.items.map(e => e.name)).to.deep.equal([
+			"fourth",
+			"second",
+		]);
+		expect(page.items[0].happenedAt).to.be.an.instanceOf(Date);
+		expect(decodeObject(page.cursor).v).to.deep.equal([
+			1577836800002000,
+			2,
+		]);
+
+		// Last page.
+		page = await qry.execute(page.cursor);
+		expect(page.items.map(e => e.name)).to.deep.equal(["third", "first"]);
+		expect(page.remaining).to.equal(0);
+
+		// Backward from the last page.
+		page = await qry.execute(page.startCursor, true);
+		expect(page.items.map(e => e.name)).to.deep.equal([
+			"fourth",
+			"second",
+		]);
+	});
+});
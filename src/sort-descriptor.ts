@@ -3,15 +3,41 @@
  */
 export enum SortDirection {
 	/**
-	 * Indicates an ascending sort.
+	 * Indicates an ascending sort, with nulls last.
 	 */
 	Ascending = "asc",
 
 	/**
-	 * Indicates a descending sort.
+	 * Indicates a descending sort, with nulls first.
 	 */
 	Descending = "desc",
 
+	/**
+	 * Indicates an ascending sort, but with nulls first.
+	 *
+	 * @remarks
+	 * This is the same as the ascending sort unless the column is nullable.
+	 */
+	AscendingNullsFirst = "ascnf",
+
+	/**
+	 * Indicates an ascending sort with nulls last.
+	 *
+	 * @remarks
+	 * This is exactly the same as the ascending sort. It exists only so that
+	 * the placement of nulls can be made explicit.
+	 */
+	AscendingNullsLast = "ascnl",
+
+	/**
+	 * Indicates a descending sort with nulls first.
+	 *
+	 * @remarks
+	 * This is exactly the same as the descending sort. It exists only so that
+	 * the placement of nulls can be made explicit.
+	 */
+	DescendingNullsFirst = "descnf",
+
 	/**
 	 * Indicates a descending sort, but with nulls last.
 	 *
@@ -47,8 +73,71 @@ export enum ColumnType {
 
 	/**
 	 * Indicates a date or datetime column. This will accept either stings or JS date instances.
+	 *
+	 * @remarks
+	 * JS date instances are stored in cursors as integer microseconds since
+	 * the epoch, and converted back into date instances when the cursor is
+	 * consumed. Strings are stored as-is.
+	 *
+	 * JS date instances only have millisecond precision. If the column is more
+	 * precise than that, have the driver return it as strings instead, so that
+	 * cursor values match the database exactly.
 	 */
 	Date = "date",
+
+	/**
+	 * Indicates a bigint column.
+	 *
+	 * @remarks
+	 * Cursor values for these columns are stored as strings of digits, so that
+	 * values beyond `Number.MAX_SAFE_INTEGER` do not lose precision. Numbers
+	 * and JS bigints fetched from the database will be converted.
+	 */
+	BigInt = "bigint",
+
+	/**
+	 * Indicates a UUID column. Cursor values must be UUID strings.
+	 */
+	Uuid = "uuid",
+
+	/**
+	 * Indicates a decimal (numeric) column.
+	 *
+	 * @remarks
+	 * Cursor values for these columns are stored as strings, so that they do
+	 * not lose precision. Numbers fetched from the database will be converted.
+	 */
+	Decimal = "decimal",
+
+	/**
+	 * Indicates an enum column. The allowed values must be specified with the
+	 * `values` property of the sort descriptor.
+	 */
+	Enum = "enum",
+
+	/**
+	 * Indicates a timestamp with time zone column.
+	 *
+	 * @remarks
+	 * Unlike `Date`, this is strict. Cursor values must be complete timestamps
+	 * with a time zone designator, either in ISO-8601 form or in the default
+	 * text format of Postgres. JS date instances will be stored in cursors as
+	 * ISO-8601 strings, while strings are stored as-is. Either way, the string
+	 * is bound as-is when the cursor is consumed, leaving the database to
+	 * parse it.
+	 */
+	Timestamp = "timestamp",
+
+	/**
+	 * Indicates an identifier column, which may hold either strings or
+	 * integers.
+	 *
+	 * @remarks
+	 * This is used for default tiebreakers when the type of a model's id can't
+	 * be inferred. Cursor values may be strings or safe integers, and JS
+	 * bigints will be stored as strings.
+	 */
+	Id = "id",
 }
 
 /**
@@ -81,8 +170,43 @@ export interface SortDescriptor {
 	 *
 	 * In the event that only the column name needs to be specified, you may
 	 * simply provide it as a string in place of the entire descriptor.
+	 *
+	 * To sort by a value inside a JSON column, use Objection's field
+	 * expression syntax: `${columnName}:${path}`, where the path is
+	 * dot-separated. The value will be cast to the `columnType`, and the
+	 * `valuePath` will default to the corresponding nested property.
+	 *
+	 * This is required unless an `expression` is specified instead.
 	 */
-	column: string;
+	column?: string;
+
+	/**
+	 * A raw SQL expression to sort by, instead of a column.
+	 *
+	 * @remarks
+	 * This allows sorting by computed values, such as `lower(??)` or
+	 * `coalesce(??, ??)`. Bindings for the expression can be specified with
+	 * the `bindings` option, and as with Knex, `??` may be used for
+	 * identifier bindings so that any identifier mappers will be applied.
+	 *
+	 * Since there is no column from which to infer it, the `valuePath` option
+	 * is required with expressions. Usually you will want to select the
+	 * expression with an alias in your base query, and use that alias as the
+	 * value path.
+	 *
+	 * This may not be combined with the `column` option.
+	 */
+	expression?: string;
+
+	/**
+	 * Bindings for the raw SQL expression, if any.
+	 *
+	 * @remarks
+	 * These are not used unless an `expression` is specified. Note that they
+	 * are part of the sort configuration, so they should not vary between
+	 * requests.
+	 */
+	bindings?: any[];
 
 	/**
 	 * The SQL data type of the column, for the purpose of validating cursor
@@ -90,14 +214,12 @@ export interface SortDescriptor {
 	 * Defaults to 'string'.
 	 *
 	 * @remarks
-	 * Currently this only supports 'string', 'integer', 'float', and 'boolean'.
-	 * Precisions, scales, and lengths are not currently checked, so realize
-	 * that clients may still cause database errors if they mess with your
-	 * cursors.
+	 * See the ColumnType enum for supported types. Precisions, scales, and
+	 * lengths are not currently checked, so realize that clients may still
+	 * cause database errors if they mess with your cursors.
 	 *
 	 * If you need find that you need better validation, or if you want support
-	 * for other data types, such as `datetime` or some kind of enum, you may
-	 * add it using the `validate` option.
+	 * for other data types, you may add it using the `validate` option.
 	 */
 	columnType?: ColumnType;
 
@@ -109,12 +231,19 @@ export interface SortDescriptor {
 
 	/**
 	 * The direction to sort this column, 'asc' or 'desc'. Defaults to 'asc'.
+	 *
+	 * @remarks
+	 * By default, nulls are sorted as if they were greater than all other
+	 * values-- last in ascending sorts, and first in descending sorts. For
+	 * nullable columns, you can choose otherwise with one of the other
+	 * directions in the SortDirection enum.
 	 */
 	direction?: SortDirection;
 
 	/**
 	 * The dot-separated path used to obtain a cursor value for this column
-	 * from an Objection Model instance. Defaults to the column name.
+	 * from an Objection Model instance. Defaults to the column name, and is
+	 * required if an expression is specified instead of a column.
 	 *
 	 * @remarks
 	 * Typically you will only need to use this option when sorting on columns
@@ -183,6 +312,12 @@ export interface SortDescriptor {
 	 */
 	valuePath?: string;
 
+	/**
+	 * The allowed values of the column. This is required if the `columnType`
+	 * is 'enum', and is ignored otherwise.
+	 */
+	values?: any[];
+
 	/**
 	 * Allows you to specify a custom validation function which will be used to
 	 * check cursor values both on cursor creation and on cursor consumption.
@@ -194,6 +329,21 @@ export interface SortDescriptor {
 	 * invalid. In the case of a string, the string will be used as the
 	 * validation error message. In the case of false, a default message will be
 	 * used.
+	 *
+	 * On cursor creation, the function is given the value as it was fetched
+	 * from the database. On cursor consumption, it is given the value as it
+	 * will be sent to the database. For date columns whose driver returns JS
+	 * date instances, this means date instances in both cases, rather than the
+	 * epoch microseconds stored in the cursor itself.
 	 */
 	validate?: ValidationFunction;
 }
+
+/**
+ * An object used to describe a column which clients may sort by dynamically.
+ *
+ * @remarks
+ * This is the same as a SortDescriptor, except that the direction is omitted.
+ * The direction is instead determined by the client's sort spec.
+ */
+export type SortableColumn = Omit<SortDescriptor, "direction">;
@@ -0,0 +1,437 @@
+import {
+	ColumnType,
+	ConfigurationError,
+	InvalidCursorError,
+	SortDirection,
+} from "./index.js";
+import {Model, QueryBuilder, knexSnakeCaseMappers} from "objection";
+import {ConcreteSortDescriptor} from "./concrete-sort-descriptor.js";
+import Knex from "knex";
+import {User} from "./test-utils/user.js";
+import {SortNode} from "./sort-node.js";
+import {createSortNode} from "./create-sort-node.js";
+import {expect} from "chai";
+import {is} from "nani";
+
+const createKnex = Knex as any; // Knex typings are stupid.
+
+describe("SortNode", function() {
+	const pgKnex = createKnex({client: "pg", ...knexSnakeCaseMappers()});
+	const mysqlKnex = createKnex({client: "mysql", ...knexSnakeCaseMappers()});
+	const mssqlKnex = createKnex({client: "mssql", ...knexSnakeCaseMappers()});
+
+	// Without a connection, the SQLite version can't be determined.
+	const sqliteKnex = createKnex({
+		client: "sqlite3",
+		useNullAsDefault: true,
+		...knexSnakeCaseMappers(),
+	});
+
+	function getSql(qry: QueryBuilder<Model>): string {
+		return qry.toKnexQuery().toSQL().sql;
+	}
+
+	describe("null ordering", function() {
+		const node = createSortNode([
+			{
+				column: "favoriteFoodId",
+				columnType: ColumnType.Integer,
+				nullable: true,
+				direction: SortDirection.AscendingNullsFirst,
+			},
+			{column: "id", columnType: ColumnType.Integer},
+		]);
+
+		it("uses native null ordering where supported", function() {
+			const qry = User.query(pgKnex);
+			node.apply(qry);
+			expect(getSql(qry)).to.contain(
+				"order by \"favorite_food_id\" asc nulls first, \"id\" asc",
+			);
+		});
+
+		it("reverses native null ordering when reversed", function() {
+			const qry = User.query(pgKnex);
+			node.reverse().apply(qry);
+			expect(getSql(qry)).to.contain(
+				"order by \"favorite_food_id\" desc nulls last, \"id\" desc",
+			);
+		});
+
+		it("emulates null ordering where unsupported", function() {
+			const qry = User.query(sqliteKnex);
+			node.apply(qry);
+			expect(getSql(qry)).to.contain(
+				"order by (`favorite_food_id` is null) desc, " +
+				"`favorite_food_id` asc, `id` asc",
+			);
+		});
+	});
+
+	describe("cursor values", function() {
+		const node = createSortNode([
+			"firstName",
+			{column: "users.id", columnType: ColumnType.Integer, valuePath: "id"},
+		]);
+
+		it("uses a row value comparison where supported", function() {
+			const qry = User.query(pgKnex);
+			node.apply(qry, ["Steve", 1]);
+			expect(getSql(qry)).to.equal(
+				"select \"users\".* from \"users\" " +
+				"where (\"first_name\", \"users\".\"id\") > (?, ?) " +
+				"order by \"first_name\" asc, \"users\".\"id\" asc",
+			);
+		});
+
+		it("uses a reversed row value comparison when reversed", function() {
+			const qry = User.query(pgKnex);
+			node.reverse().apply(qry, ["Steve", 1]);
+			expect(getSql(qry)).to.contain(
+				"where (\"first_name\", \"users\".\"id\") < (?, ?)",
+			);
+		});
+
+		it("falls back to nested filters where unsupported", function() {
+			const qry = User.query(mssqlKnex);
+			node.apply(qry, ["Steve", 1]);
+			expect(getSql(qry)).to.contain(
+				"where ((([first_name] > ?) or ([first_name] = ? " +
+				"and [users].[id] > ?)))",
+			);
+		});
+
+		it("falls back to nested filters for mixed directions", function() {
+			const qry = User.query(pgKnex);
+			createSortNode([
+				{column: "firstName", direction: SortDirection.Descending},
+				{column: "id", columnType: ColumnType.Integer},
+			]).apply(qry, ["Steve", 1]);
+			expect(getSql(qry)).to.contain(
+				"where (((\"first_name\" < ?) or (\"first_name\" = ? " +
+				"and \"id\" > ?)))",
+			);
+		});
+
+		it("gives appended tiebreakers the last sort direction", function() {
+			const qry = User.query(pgKnex);
+			createSortNode(
+				[{column: "firstName", direction: SortDirection.Descending}],
+				[new ConcreteSortDescriptor({
+					column: "id",
+					columnType: ColumnType.Integer,
+				})],
+			).apply(qry, ["Steve", 1]);
+			expect(getSql(qry)).to.equal(
+				"select \"users\".* from \"users\" " +
+				"where (\"first_name\", \"id\") < (?, ?) " +
+				"order by \"first_name\" desc, \"id\" desc",
+			);
+		});
+
+		it("filters rows with row value comparisons", async function() {
+			// SQLite supports row values, even though they aren't used for it.
+			const memoryKnex = createKnex({
+				client: "sqlite3",
+				useNullAsDefault: true,
+				connection: {filename: ":memory:"},
+				...knexSnakeCaseMappers(),
+			});
+			try {
+				await memoryKnex.schema.createTable("users", (table: any) => {
+					table.increments("id").primary();
+					table.string("firstName").notNullable();
+				});
+				await memoryKnex("users").insert([
+					{firstName: "Steve"},
+					{firstName: "Dude"},
+					{firstName: "Steve"},
+					{firstName: "Cool"},
+					{firstName: "Terd"},
+				]);
+
+				const getNames = async(sortNode: SortNode): Promise<string[]> => {
+					const qry = User.query(memoryKnex);
+					sortNode.applyOrder(qry);
+					sortNode.applyRowValues(
+						qry,
+						sortNode.parseCursorValues(["Steve", 1]),
+					);
+					expect(getSql(qry)).to.contain("(?, ?)");
+					const users = await qry;
+					return users.map(u => `${u.firstName} ${u.id}`);
+				};
+				expect(await getNames(node)).to.deep.equal(["Steve 3", "Terd 5"]);
+				expect(await getNames(node.reverse())).to.deep.equal([
+					"Dude 2",
+					"Cool 4",
+				]);
+			} finally {
+				await memoryKnex.destroy();
+			}
+		});
+
+		it("falls back to nested filters for nullable columns", function() {
+			const qry = User.query(pgKnex);
+			createSortNode([
+				{
+					column: "favoriteFoodId",
+					columnType: ColumnType.Integer,
+					nullable: true,
+				},
+				{column: "id", columnType: ColumnType.Integer},
+			]).apply(qry, [1, 1]);
+			expect(getSql(qry)).not.to.contain("(?, ?)");
+		});
+	});
+
+	describe("expressions", function() {
+		const node = createSortNode([
+			{
+				expression: "lower(??)",
+				bindings: ["firstName"],
+				valuePath: "lowerFirstName",
+			},
+			{column: "id", columnType: ColumnType.Integer},
+		]);
+
+		it("sorts and filters by raw expressions", function() {
+			const qry = User.query(sqliteKnex);
+			node.apply(qry, ["steve", 1]);
+			expect(getSql(qry)).to.equal(
+				"select `users`.* from `users` " +
+				"where (((lower(`first_name`) > ?) or " +
+				"(lower(`first_name`) = ? and `id` > ?))) " +
+				"order by lower(`first_name`) asc, `id` asc",
+			);
+		});
+
+		it("uses raw expressions in row value comparisons", function() {
+			const qry = User.query(pgKnex);
+			node.apply(qry, ["steve", 1]);
+			expect(getSql(qry)).to.contain(
+				"where ((lower(\"first_name\")), \"id\") > (?, ?)",
+			);
+		});
+
+		it("requires a value path", function() {
+			try {
+				createSortNode([{expression: "lower(??)", bindings: ["name"]}]);
+				expect.fail("Should have thrown");
+			} catch (err) {
+				if (!is(err, ConfigurationError)) throw err;
+				expect(err.shortMessage).to.equal(
+					"Sort expressions require a valuePath",
+				);
+			}
+		});
+
+		it("cannot be combined with a column", function() {
+			try {
+				createSortNode([{
+					column: "name",
+					expression: "lower(??)",
+					valuePath: "name",
+				}]);
+				expect.fail("Should have thrown");
+			} catch (err) {
+				if (!is(err, ConfigurationError)) throw err;
+				expect(err.shortMessage).to.equal(
+					"Sort descriptors cannot have both a column and an expression",
+				);
+			}
+		});
+	});
+
+	describe("JSON paths", function() {
+		const node = createSortNode([
+			{column: "users.stats:ranks[0].value", columnType: ColumnType.Float},
+		]);
+
+		it("extracts values with Postgres operators", function() {
+			const qry = User.query(pgKnex);
+			node.apply(qry, [0.5]);
+			expect(getSql(qry)).to.equal(
+				"select \"users\".* from \"users\" " +
+				"where (CAST(\"users\".\"stats\"#>>'{ranks,0,value}' " +
+				"AS double precision) > ?) " +
+				"order by CAST(\"users\".\"stats\"#>>'{ranks,0,value}' " +
+				"AS double precision) asc",
+			);
+		});
+
+		it("extracts values with MySQL functions", function() {
+			const qry = User.query(mysqlKnex);
+			node.apply(qry, [0.5]);
+			expect(getSql(qry)).to.contain(
+				"where (CAST(json_unquote(json_extract(`users`.`stats`, " +
+				"'$.ranks[0].value')) AS double) > ?)",
+			);
+		});
+
+		it("extracts values with SQLite functions", function() {
+			const qry = User.query(sqliteKnex);
+			node.apply(qry, [0.5]);
+			expect(getSql(qry)).to.contain(
+				"where (json_extract(`users`.`stats`, '$.ranks[0].value') > ?)",
+			);
+		});
+
+		it("defaults the value path to the nested property", function() {
+			const [descriptor] = node.getDescriptors();
+			expect(descriptor.valuePath).to.equal("stats.ranks.0.value");
+		});
+
+		it("rejects invalid JSON paths", function() {
+			try {
+				createSortNode(["stats:ranks.'; drop table users; --"]);
+				expect.fail("Should have thrown");
+			} catch (err) {
+				if (!is(err, ConfigurationError)) throw err;
+				expect(err.shortMessage).to.equal(
+					"Invalid JSON reference 'stats:ranks.'; drop table users; --'",
+				);
+			}
+		});
+
+		it("rejects unsupported databases", function() {
+			try {
+				node.apply(User.query(mssqlKnex));
+				expect.fail("Should have thrown");
+			} catch (err) {
+				if (!is(err, ConfigurationError)) throw err;
+				expect(err.shortMessage).to.equal(
+					"JSON references are not supported for this database",
+				);
+			}
+		});
+	});
+
+	describe("column types", function() {
+		function expectInvalid(node: SortNode, value: any): void {
+			try {
+				node.apply(User.query(sqliteKnex), [value]);
+				expect.fail("Should have thrown");
+			} catch (err) {
+				if (!is(err, InvalidCursorError)) throw err;
+				expect(err.shortMessage).to.equal(
+					"Cursor value does not match its column type",
+				);
+			}
+		}
+
+		function getBindings(node: SortNode, value: any): any[] {
+			const qry = User.query(sqliteKnex);
+			node.apply(qry, [value]);
+			return qry.toKnexQuery().toSQL().bindings as any[];
+		}
+
+		it("stores bigints as strings", function() {
+			const node = createSortNode([
+				{column: "id", columnType: ColumnType.BigInt},
+			]);
+			expect(node.getCursorValues({id: 42})).to.deep.equal(["42"]);
+			expect(node.getCursorValues({id: "9007199254740993"}))
+				.to.deep.equal(["9007199254740993"]);
+			expect(getBindings(node, "9007199254740993"))
+				.to.deep.equal(["9007199254740993"]);
+			expectInvalid(node, 42);
+			expectInvalid(node, "4.2");
+		});
+
+		it("validates uuids", function() {
+			const node = createSortNode([
+				{column: "id", columnType: ColumnType.Uuid},
+			]);
+			const uuid = "0b5a7e64-1c4f-4a8e-9d3e-3b6f2c1d9e8a";
+			expect(getBindings(node, uuid)).to.deep.equal([uuid]);
+			expect(getBindings(node, uuid.toUpperCase()))
+				.to.deep.equal([uuid.toUpperCase()]);
+			expectInvalid(node, "0b5a7e64-1c4f-4a8e-9d3e");
+			expectInvalid(node, 42);
+		});
+
+		it("stores decimals as strings", function() {
+			const node = createSortNode([
+				{column: "score", columnType: ColumnType.Decimal},
+			]);
+			expect(node.getCursorValues({score: 0.5})).to.deep.equal(["0.5"]);
+			expect(node.getCursorValues({score: "12345678901234567890.01"}))
+				.to.deep.equal(["12345678901234567890.01"]);
+			expectInvalid(node, 0.5);
+			expectInvalid(node, "1e5");
+		});
+
+		it("checks enum values against the allowed list", function() {
+			const node = createSortNode([{
+				column: "role",
+				columnType: ColumnType.Enum,
+				values: ["regularUser", "administrator"],
+			}]);
+			expect(getBindings(node, "administrator"))
+				.to.deep.equal(["administrator"]);
+			expectInvalid(node, "superuser");
+		});
+
+		it("requires values for enum columns", function() {
+			try {
+				createSortNode([{column: "role", columnType: ColumnType.Enum}]);
+				expect.fail("Should have thrown");
+			} catch (err) {
+				if (!is(err, ConfigurationError)) throw err;
+				expect(err.shortMessage).to.equal(
+					"Enum columns require a list of values",
+				);
+			}
+		});
+
+		it("validates dates as date instances", function() {
+			const validated: any[] = [];
+			const node = createSortNode([{
+				column: "createdAt",
+				columnType: ColumnType.Date,
+				validate: (v: any) => {
+					validated.push(v);
+					return true;
+				},
+			}]);
+			const createdAt = new Date("2020-01-02T03:04:05.678Z");
+			const [value] = node.getCursorValues({createdAt});
+			expect(value).to.equal(createdAt.getTime() * 1000);
+			expect(getBindings(node, value)).to.deep.equal([createdAt]);
+			expect(validated).to.deep.equal([createdAt, createdAt]);
+		});
+
+		it("stores timestamp date instances as ISO-8601 strings", function() {
+			const node = createSortNode([
+				{column: "createdAt", columnType: ColumnType.Timestamp},
+			]);
+			const createdAt = new Date("2020-01-02T03:04:05.678Z");
+			const [value] = node.getCursorValues({createdAt});
+			expect(value).to.equal("2020-01-02T03:04:05.678Z");
+			expect(getBindings(node, value)).to.deep.equal([value]);
+			expect(getBindings(node, "2020-01-02T04:04:05.678+01:00"))
+				.to.deep.equal(["2020-01-02T04:04:05.678+01:00"]);
+			expectInvalid(node, "2020-01-02");
+			expectInvalid(node, "2020-01-02T03:04:05");
+			expectInvalid(node, "2020-13-45T03:04:05Z");
+			expectInvalid(node, createdAt.getTime());
+		});
+
+		it("keeps sub-millisecond timestamp strings intact", function() {
+			const node = createSortNode([
+				{column: "createdAt", columnType: ColumnType.Timestamp},
+			]);
+			const createdAt = "2020-01-02 03:04:05.678901+00";
+			const [value] = node.getCursorValues({createdAt});
+			expect(value).to.equal(createdAt);
+			expect(getBindings(node, value)).to.deep.equal([createdAt]);
+			expect(getBindings(node, "2020-01-02 04:04:05+01"))
+				.to.deep.equal(["2020-01-02 04:04:05+01"]);
+			expect(getBindings(node, "2020-01-02 04:04:05+0100"))
+				.to.deep.equal(["2020-01-02 04:04:05+0100"]);
+			expectInvalid(node, "2020-01-02 03:04:05");
+			expectInvalid(node, "2020-13-45 03:04:05+00");
+		});
+	});
+});
@@ -1,9 +1,9 @@
 import {Model, OrderByDescriptor, QueryBuilder} from "objection";
 import {ConcreteSortDescriptor} from "./concrete-sort-descriptor.js";
 import {ConfigurationError} from "./configuration-error.js";
-import {SortDirection} from "./sort-descriptor.js";
-import {ValidationCase} from "./get-error-class.js";
 import _ from "lodash";
+import {createFingerprint} from "./create-fingerprint.js";
+import {supportsNullsOrder, supportsRowValues} from "./dialect.js";
 
 /**
  * An internal class used to apply sorting and cursor filters to Objection
@@ -60,6 +60,53 @@ export class SortNode {
 		}
 	}
 
+	/**
+	 * Gets the concrete sort descriptors for this node and all of its
+	 * subsorts.
+	 * @returns The concrete sort descriptors, in sort order.
+	 */
+	getDescriptors(): ConcreteSortDescriptor[] {
+		const {descriptor, child} = this;
+		const result = [descriptor];
+		if (child) result.push(...child.getDescriptors());
+		return result;
+	}
+
+	/**
+	 * Creates a fingerprint of the sort configuration for this node and all of
+	 * its subsorts.
+	 *
+	 * @remarks
+	 * This is stored in cursors, so that cursors created before a change to
+	 * the sort configuration can be detected and rejected.
+	 *
+	 * @returns The fingerprint.
+	 */
+	getFingerprint(): string {
+		return createFingerprint(this.getDescriptors().map(d => [
+			d.getColumnIdentity(),
+			d.columnType,
+			d.nullable,
+			d.direction,
+			d.valuePath,
+		]));
+	}
+
+	/**
+	 * Creates a copy of the node and all of its subsorts, with every sort order
+	 * reversed.
+	 *
+	 * @remarks
+	 * This is used to fetch pages backwards. Applying cursor values to the
+	 * reversed node will filter out the cursor's item and any items *after* it
+	 * in the original sort.
+	 *
+	 * @returns The reversed node.
+	 */
+	reverse(): SortNode {
+		return new SortNode(this.getDescriptors().map(d => d.reverse()));
+	}
+
 	/**
 	 * Applies the node and all of its children to the provided query builder,
 	 * with optional cursor values.
@@ -69,6 +116,11 @@ export class SortNode {
 	 * necessary for getting the page, though the limit is handled in the
 	 * Paginator class itself.
 	 *
+	 * Cursor values will be applied as a single row value comparison if
+	 * possible. See `#canUseRowValues` for details. Otherwise, they will be
+	 * applied in a group of their own, since their filter expressions may
+	 * begin with an `or` that would escape any other filters on the query.
+	 *
 	 * Note that this method mutates the provided builder, but does not mutate
 	 * the node.
 	 *
@@ -79,7 +131,78 @@ export class SortNode {
 	 */
 	apply(qry: QueryBuilder<Model>, cursorValues?: any[]): void {
 		this.applyOrder(qry);
-		if (cursorValues) this.applyCursorValues(qry, cursorValues);
+		if (!cursorValues) return;
+		const values = this.parseCursorValues(cursorValues);
+		if (this.canUseRowValues(qry)) {
+			this.applyRowValues(qry, values);
+		} else {
+			qry.where(sub => this.applyCursorValues(sub, values));
+		}
+	}
+
+	/**
+	 * Converts cursor values for the node and all of its subsorts to the form
+	 * in which they will be sent to the database.
+	 *
+	 * @remarks
+	 * Cursor values are validated as they are parsed. If a problem is found,
+	 * this method will throw an InvalidCursorError. This happens up front,
+	 * since filter expressions in groups aren't built until the query is.
+	 *
+	 * @param values - The cursor values to parse.
+	 * @returns The parsed cursor values.
+	 */
+	parseCursorValues(values: any[]): any[] {
+		return this.getDescriptors().map((d, i) => {
+			return d.parseCursorValue(values[i]);
+		});
+	}
+
+	/**
+	 * Determines whether cursor values for this node can be applied to the
+	 * provided query as a single row value comparison.
+	 *
+	 * @remarks
+	 * A row value comparison like `(a, b) > (?, ?)` is equivalent to the nested
+	 * filter expressions created by `#applyCursorValues`, but only if every
+	 * column is sorted in the same direction and none of them are nullable.
+	 * It's only worth it if there is more than one column, and it of course
+	 * requires a database that supports row values.
+	 *
+	 * @param qry - The query to which cursor values will be applied.
+	 * @returns true if a row value comparison can be used, false otherwise.
+	 */
+	canUseRowValues(qry: QueryBuilder<Model>): boolean {
+		if (!this.child || this.anyNullable) return false;
+		const operators = this.getDescriptors().map(d => d.operator);
+		if (_.uniq(operators).length > 1) return false;
+		return supportsRowValues(qry);
+	}
+
+	/**
+	 * Adds a row value comparison filter for the node and all of its subsorts
+	 * to the provided query, based on the provided cursor values.
+	 *
+	 * @remarks
+	 * This has the same effect as `#applyCursorValues`, but it should only be
+	 * used if `#canUseRowValues` returns true. Like that method, it expects
+	 * cursor values that have already been parsed by `#parseCursorValues`.
+	 *
+	 * Note that this method mutates the provided query builder, but does not
+	 * mutate the node.
+	 *
+	 * @param qry - The query builder to mutate.
+	 * @param values - The cursor values to apply.
+	 */
+	applyRowValues(qry: QueryBuilder<Model>, values: any[]): void {
+		const descriptors = this.getDescriptors();
+		const columns = descriptors.map(d => d.getRawColumn(qry));
+		const placeholders = descriptors.map(() => "?");
+		qry.whereRaw(
+			`(${columns.join(", ")}) ${this.descriptor.operator} ` +
+				`(${placeholders.join(", ")})`,
+			values,
+		);
 	}
 
 	/**
@@ -90,6 +213,9 @@ export class SortNode {
 	 * order in raw sql, depending on whether any columns in the sort are
 	 * nullable.
 	 *
+	 * Knex orderBy expressions are added one at a time, since Objection does
+	 * not convert raw expressions when they are provided all at once.
+	 *
 	 * This method mutates the provided query.
 	 *
 	 * @param qry - The query to which to apply an order.
@@ -98,21 +224,25 @@ export class SortNode {
 		if (this.anyNullable) {
 			qry.orderByRaw(this.getOrderByClause(qry));
 		} else {
-			qry.orderBy(this.getOrderByDescriptors());
+			for (const {column, order} of this.getOrderByDescriptors(qry)) {
+				qry.orderBy(column, order);
+			}
 		}
 	}
 
 	/**
 	 * Gets the Objection orderBy descriptors for this node and all of its
 	 * subsorts.
+	 * @param qry - The query the descriptors are for.
 	 * @returns The orderBy descriptors, which can be provided directly to tfhe
 	 *    builder's #orderBy method.
 	 */
-	getOrderByDescriptors(): OrderByDescriptor[] {
+	getOrderByDescriptors(qry: QueryBuilder<Model>): OrderByDescriptor[] {
 		const {descriptor, child} = this;
-		const {column, order} = descriptor;
+		const {order} = descriptor;
+		const column = descriptor.getColumnRef(qry);
 		const result: OrderByDescriptor[] = [{column, order}];
-		if (child) result.push(...child.getOrderByDescriptors());
+		if (child) result.push(...child.getOrderByDescriptors(qry));
 		return result;
 	}
 
@@ -138,19 +268,25 @@ export class SortNode {
 	 * Gets the raw ORDER BY terms for this node alone.
 	 *
 	 * @remarks
-	 * A nullable column will need to return more than just one term, so that
-	 * we can explicitly tell the database how nulls should be sorted instead of
-	 * leaving it to inconsistent defaults.
+	 * A nullable column needs to explicitly tell the database how nulls should
+	 * be sorted instead of leaving it to inconsistent defaults. Where the
+	 * database supports it, this is done with `NULLS FIRST` or `NULLS LAST`,
+	 * which can make use of indexes.
+	 *
+	 * Elsewhere, we need to return more than just one term, sorting first by
+	 * whether or not the column is null.
 	 *
 	 * @returns The ORDER BY terms in raw SQL.
 	 */
 	getOwnOrderByTerms(qry: QueryBuilder<Model>): string[] {
 		const {descriptor} = this;
 		const column = descriptor.getRawColumn(qry);
-		const {order, nullable, nullOrder} = descriptor;
-		const terms = [`${column} ${order}`];
-		if (nullable) terms.unshift(`(${column} is null) ${nullOrder}`);
-		return terms;
+		const {order, nullable, nullsLast, nullOrder} = descriptor;
+		if (!nullable) return [`${column} ${order}`];
+		if (supportsNullsOrder(qry)) {
+			return [`${column} ${order} nulls ${nullsLast ? "last" : "first"}`];
+		}
+		return [`(${column} is null) ${nullOrder}`, `${column} ${order}`];
 	}
 
 	/**
@@ -183,8 +319,10 @@ export class SortNode {
 	 * cursor by filtering out the final item in a page and any values ocurring
 	 * before it in the sort.
 	 *
-	 * Cursor values are validated as they are applied. If a problem is found,
-	 * this method will throw an InvalidCursorError.
+	 * The cursor values must already have been parsed by `#parseCursorValues`.
+	 * The filter expressions may begin with an `or`, so unless this node is
+	 * a child of another, they should be applied in a group of their own, as
+	 * `#apply` does.
 	 *
 	 * Note that this method mutates the provided query builder, but does not
 	 * mutate the node.
@@ -193,9 +331,7 @@ export class SortNode {
 	 * @param values - The cursor values to apply.
 	 */
 	applyCursorValues(qry: QueryBuilder<Model>, values: any[]): void {
-		const [value] = values;
-		const childValues = values.slice(1);
-		this.descriptor.validateCursorValue(value, ValidationCase.Cursor);
+		const [value, ...childValues] = values;
 		if (value === null) {
 			this.applyNullCursorValue(qry, childValues);
 		} else {
@@ -226,7 +362,7 @@ export class SortNode {
 		childValues: any[],
 	): void {
 		const {descriptor, child} = this;
-		const {column} = descriptor;
+		const column = descriptor.getColumnRef(qry);
 		if (child) {
 			qry.where(sub0 => {
 				sub0
@@ -234,7 +370,7 @@ export class SortNode {
 						this.applyInequality(sub1, value);
 					})
 					.orWhere(sub1 => {
-						sub1.where({[column]: value});
+						sub1.where(column, value);
 						child.applyCursorValues(sub1, childValues);
 					});
 			});
@@ -257,10 +393,11 @@ export class SortNode {
 	 */
 	applyNullCursorValue(qry: QueryBuilder<Model>, childValues: any[]): void {
 		const {descriptor, child} = this;
-		const {column, direction} = descriptor;
+		const {nullsLast} = descriptor;
+		const column = descriptor.getColumnRef(qry);
 		if (child) {
 			this.applyNullCursorValueWithChildren(qry, childValues);
-		} else if (direction !== SortDirection.Descending) {
+		} else if (nullsLast) {
 			qry.whereNull(column);
 		}
 	}
@@ -276,8 +413,9 @@ export class SortNode {
 	 * @param value - The value for the inequality filter.
 	 */
 	applyInequality(qry: QueryBuilder<Model>, value: any): void {
-		const {column, operator, nullable} = this.descriptor;
-		qry.where(column, operator, value);
+		const {descriptor} = this;
+		const {operator, nullable} = descriptor;
+		qry.where(descriptor.getColumnRef(qry), operator, value);
 		if (nullable) this.handleNulls(qry);
 	}
 
@@ -296,8 +434,8 @@ export class SortNode {
 	 * @param qry - The query builder to which an inequality filter was added.
 	 */
 	handleNulls(qry: QueryBuilder<Model>): void {
-		const {column, direction} = this.descriptor;
-		if (direction !== SortDirection.Descending) qry.orWhereNull(column);
+		const {descriptor} = this;
+		if (descriptor.nullsLast) qry.orWhereNull(descriptor.getColumnRef(qry));
 	}
 
 	/**
@@ -317,15 +455,16 @@ export class SortNode {
 		childValues: any[],
 	): void {
 		const {descriptor, child} = this as Required<SortNode>;
-		const {column, direction} = descriptor;
-		if (direction === SortDirection.Descending) {
+		const {nullsLast} = descriptor;
+		const column = descriptor.getColumnRef(qry);
+		if (nullsLast) {
+			qry.whereNull(column);
+			child.applyCursorValues(qry, childValues);
+		} else {
 			qry.whereNotNull(column).orWhere(sub => {
 				sub.whereNull(column);
 				child.applyCursorValues(sub, childValues);
 			});
-		} else {
-			qry.whereNull(column);
-			child.applyCursorValues(qry, childValues);
 		}
 	}
 }
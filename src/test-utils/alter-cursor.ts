@@ -18,3 +18,18 @@ export function alterCursor(cursor: string, index: number, value: any): string {
 	cursorObj.v[index] = value;
 	return encodeObject(cursorObj);
 }
+
+/**
+ * A utility for integration tests. Alters properties of a cursor string other
+ * than its values.
+ *
+ * @param cursor - The cursor string to alter.
+ * @param changes - The properties to assign over those in the cursor.
+ * @returns The altered copy of the cursor.
+ */
+export function alterCursorObject(
+	cursor: string,
+	changes: Record<string, any>,
+): string {
+	return encodeObject({...decodeObject(cursor), ...changes});
+}
@@ -0,0 +1,5 @@
+import {MemberQuery} from "./member-query.js";
+
+export class BoundMemberQuery extends MemberQuery {
+	static argsFingerprint = ["projectId"];
+}
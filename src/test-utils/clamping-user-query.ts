@@ -0,0 +1,5 @@
+import {LimitedUserQuery} from "./limited-user-query.js";
+
+export class ClampingUserQuery extends LimitedUserQuery {
+	static clampLimit = true;
+}
@@ -0,0 +1,12 @@
+import {Membership} from "./membership.js";
+
+export class CompositeMembership extends Membership {
+	static idColumn = ["projectId", "userId"];
+	static jsonSchema = {
+		type: "object",
+		properties: {
+			projectId: {type: "integer"},
+			userId: {type: "integer"},
+		},
+	};
+}
@@ -0,0 +1,8 @@
+import {MemberQuery, MemberQueryArgs} from "./member-query.js";
+
+export class CustomValidatedMemberQuery extends MemberQuery {
+	static argsSchema = (args: MemberQueryArgs): boolean|string => {
+		if (args.projectId === 2) return "Project 2 is off limits";
+		return args.projectId === 1;
+	};
+}
@@ -0,0 +1,11 @@
+import {ColumnType, SortableColumn} from "../index.js";
+import {UserQuery} from "./user-query.js";
+
+export class DynamicUserQuery extends UserQuery {
+	static sortableColumns: Record<string, SortableColumn|string> = {
+		score: {column: "score", columnType: ColumnType.Float},
+		firstName: "firstName",
+		lastName: "lastName",
+		id: {column: "id", columnType: ColumnType.Integer},
+	};
+}
@@ -0,0 +1,6 @@
+import {CursorCodec, EncryptedCursorCodec} from "../index.js";
+import {UserQuery} from "./user-query.js";
+
+export class EncryptedUserQuery extends UserQuery {
+	static cursorCodec: CursorCodec = new EncryptedCursorCodec("some key");
+}
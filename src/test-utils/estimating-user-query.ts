@@ -0,0 +1,8 @@
+import {UserQuery} from "./user-query.js";
+
+export class EstimatingUserQuery extends UserQuery {
+	// eslint-disable-next-line class-methods-use-this
+	estimateCount(): number {
+		return 10;
+	}
+}
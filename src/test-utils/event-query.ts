@@ -0,0 +1,23 @@
+import {ColumnType, Paginator, SortDirection} from "../index.js";
+import {Event} from "./event.js";
+import {QueryBuilder} from "objection";
+
+export class EventQuery extends Paginator<Event> {
+	static sorts = {
+		default: [
+			{
+				column: "happenedAt",
+				columnType: ColumnType.Date,
+				direction: SortDirection.Descending,
+			},
+			// pg-mem can't compare row values with bound parameters, so mixed
+			// directions keep them out of its tests.
+			{column: "id", columnType: ColumnType.Integer},
+		],
+	};
+
+	// eslint-disable-next-line class-methods-use-this
+	getBaseQuery(): QueryBuilder<Event> {
+		return Event.query();
+	}
+}
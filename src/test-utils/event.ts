@@ -0,0 +1,9 @@
+import {Model} from "objection";
+
+export class Event extends Model {
+	static tableName = "events";
+
+	id: number;
+	name: string;
+	happenedAt: Date;
+}
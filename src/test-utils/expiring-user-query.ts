@@ -0,0 +1,5 @@
+import {UserQuery} from "./user-query.js";
+
+export class ExpiringUserQuery extends UserQuery {
+	static maxCursorAge = 60000;
+}
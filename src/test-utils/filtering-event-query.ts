@@ -0,0 +1,16 @@
+import {ColumnType, FilterDefinition, FilterOperator} from "../index.js";
+import {EventQuery} from "./event-query.js";
+
+export class FilteringEventQuery extends EventQuery {
+	static filters: Record<string, FilterDefinition|string> = {
+		id: {
+			columnType: ColumnType.Integer,
+			operators: [
+				FilterOperator.GreaterThan,
+				FilterOperator.In,
+				FilterOperator.IsNull,
+			],
+		},
+		name: "name",
+	};
+}
@@ -0,0 +1,34 @@
+import {ColumnType, FilterDefinition, FilterOperator} from "../index.js";
+import {UserQuery} from "./user-query.js";
+import {UserRole} from "./user.js";
+
+export class FilteringUserQuery extends UserQuery {
+	static filters: Record<string, FilterDefinition|string> = {
+		role: {
+			columnType: ColumnType.Enum,
+			values: Object.values(UserRole),
+			operators: [FilterOperator.Equal, FilterOperator.In],
+		},
+		lastName: {
+			column: "users.lastName",
+			operators: [FilterOperator.Equal, FilterOperator.Like],
+		},
+		score: {
+			columnType: ColumnType.Float,
+			operators: [
+				FilterOperator.GreaterThan,
+				FilterOperator.LessThanOrEqual,
+			],
+		},
+		favoriteFoodId: {
+			columnType: ColumnType.Integer,
+			operators: [FilterOperator.In, FilterOperator.IsNull],
+			validate: (v: number) => v > 0 || "Food ids must be positive",
+		},
+		createdAt: {
+			columnType: ColumnType.Date,
+			operators: [FilterOperator.GreaterThan],
+		},
+		firstName: "firstName",
+	};
+}
@@ -0,0 +1,5 @@
+import {MemberQuery} from "./member-query.js";
+
+export class FullyBoundMemberQuery extends MemberQuery {
+	static argsFingerprint = true;
+}
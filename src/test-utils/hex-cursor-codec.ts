@@ -0,0 +1,17 @@
+import {CursorCodec, CursorObj, InvalidCursorError} from "../index.js";
+
+export class HexCursorCodec implements CursorCodec {
+	// eslint-disable-next-line class-methods-use-this
+	encode(obj: CursorObj): string {
+		return Buffer.from(JSON.stringify(obj)).toString("hex");
+	}
+
+	// eslint-disable-next-line class-methods-use-this
+	decode(str: string): unknown {
+		try {
+			return JSON.parse(Buffer.from(str, "hex").toString());
+		} catch (err) {
+			throw new InvalidCursorError("Cursor is not hex-encoded JSON");
+		}
+	}
+}
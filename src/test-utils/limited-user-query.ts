@@ -0,0 +1,6 @@
+import {UserQuery} from "./user-query.js";
+
+export class LimitedUserQuery extends UserQuery {
+	static defaultLimit = 2;
+	static maxLimit = 3;
+}
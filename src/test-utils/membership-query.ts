@@ -0,0 +1,12 @@
+import {CompositeMembership} from "./composite-membership.js";
+import {Paginator} from "../index.js";
+import {QueryBuilder} from "objection";
+
+export class MembershipQuery extends Paginator<CompositeMembership> {
+	static sorts = {default: ["role"]};
+
+	// eslint-disable-next-line class-methods-use-this
+	getBaseQuery(): QueryBuilder<CompositeMembership> {
+		return CompositeMembership.query();
+	}
+}
@@ -0,0 +1,9 @@
+import {QueryBuilder} from "objection";
+import {User} from "./user.js";
+import {UserQuery} from "./user-query.js";
+
+export class RestrictedUserQuery extends UserQuery {
+	getBaseQuery(): QueryBuilder<User> {
+		return super.getBaseQuery().where("firstName", "Terd");
+	}
+}
@@ -0,0 +1,20 @@
+import {ColumnType, Paginator, SortDirection} from "../index.js";
+import {QueryBuilder} from "objection";
+import {Session} from "./session.js";
+
+export class SessionQuery extends Paginator<Session> {
+	static sorts = {
+		default: [
+			{
+				column: "startedAt",
+				columnType: ColumnType.Date,
+				direction: SortDirection.Descending,
+			},
+		],
+	};
+
+	// eslint-disable-next-line class-methods-use-this
+	getBaseQuery(): QueryBuilder<Session> {
+		return Session.query();
+	}
+}
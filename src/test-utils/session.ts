@@ -0,0 +1,8 @@
+import {Model} from "objection";
+
+export class Session extends Model {
+	static tableName = "sessions";
+
+	id: number;
+	startedAt: string;
+}
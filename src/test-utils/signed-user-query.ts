@@ -0,0 +1,5 @@
+import {UserQuery} from "./user-query.js";
+
+export class SignedUserQuery extends UserQuery {
+	static cursorSecret: string|string[] = "some secret";
+}
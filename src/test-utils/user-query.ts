@@ -1,6 +1,6 @@
 import {ColumnType, Paginator, SortDirection} from "../index.js";
 import {User, UserRole} from "./user.js";
-import {QueryBuilder} from "objection";
+import {QueryBuilder, raw} from "objection";
 
 export class UserQuery extends Paginator<User> {
 	static sorts = {
@@ -36,6 +36,7 @@ export class UserQuery extends Paginator<User> {
 				direction: SortDirection.Descending,
 			},
 		],
+		byFirstName: ["firstName"],
 		byFavoriteFoodId: [
 			{
 				column: "favoriteFoodId",
@@ -46,6 +47,38 @@ export class UserQuery extends Paginator<User> {
 			"lastName",
 			{column: "id", columnType: ColumnType.Integer},
 		],
+		byNonZeroScore: [
+			{
+				expression: "nullif(??, ?)",
+				bindings: ["score", 0],
+				columnType: ColumnType.Float,
+				nullable: true,
+				direction: SortDirection.Descending,
+				valuePath: "nonZeroScore",
+			},
+			"firstName",
+		],
+		byOverallRank: [
+			{column: "users.stats:ranks.overall", columnType: ColumnType.Integer},
+		],
+		byCreatedAt: [
+			{
+				column: "createdAt",
+				columnType: ColumnType.Date,
+				direction: SortDirection.Descending,
+			},
+		],
+		byFavoriteFoodIdNullsFirst: [
+			{
+				column: "favoriteFoodId",
+				columnType: ColumnType.Integer,
+				nullable: true,
+				direction: SortDirection.AscendingNullsFirst,
+			},
+			"firstName",
+			"lastName",
+			{column: "id", columnType: ColumnType.Integer},
+		],
 		byFavoriteFoodIdReversed: [
 			{
 				column: "favoriteFoodId",
@@ -131,6 +164,12 @@ export class UserQuery extends Paginator<User> {
 		if (this.sort.startsWith("byFavoriteFoodName")) {
 			qry.withGraphJoined("favoriteFood");
 		}
+		if (this.sort === "byNonZeroScore") {
+			qry.select(
+				"users.*",
+				raw("nullif(??, ?) as ??", ["score", 0, "nonZeroScore"]),
+			);
+		}
 		return qry;
 	}
 }
@@ -7,8 +7,15 @@ export enum UserRole {
 	Administrator = "administrator",
 }
 
+export interface UserStats {
+	ranks: {
+		overall: number;
+	};
+}
+
 export class User extends Model {
 	static tableName = "users";
+	static jsonAttributes = ["stats"];
 	static relationMappings = {
 		memberships: {
 			relation: Model.HasManyRelation,
@@ -35,6 +42,8 @@ export class User extends Model {
 	suspended: boolean;
 	score: number;
 	favoriteFoodId: number|null;
+	stats: UserStats|null;
+	createdAt: Date|null;
 
 	memberships?: Membership[];
 	favoriteFood?: Food|null;
@@ -43,13 +52,22 @@ export class User extends Model {
 		return `${this.firstName} ${this.lastName}`;
 	}
 
-	// eslint-disable-next-line class-methods-use-this
 	$parseDatabaseJson(json: Pojo): Pojo {
+		json = super.$parseDatabaseJson(json);
+
 		/*
 		 * SQLite does not have a native boolean type. Knex will convert them
 		 * to integers on the way in, but we have to convert them back here.
 		 */
 		if ("suspended" in json) json.suspended = Boolean(json.suspended);
+
+		/*
+		 * SQLite doesn't have a native date type either. The driver stores
+		 * dates as milliseconds since the epoch, so we convert them back.
+		 */
+		if (json.createdAt !== null && json.createdAt !== undefined) {
+			json.createdAt = new Date(json.createdAt);
+		}
 		return json;
 	}
 }
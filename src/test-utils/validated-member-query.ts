@@ -0,0 +1,11 @@
+import {MemberQuery} from "./member-query.js";
+
+export class ValidatedMemberQuery extends MemberQuery {
+	static argsSchema = {
+		type: "object",
+		required: ["projectId"],
+		properties: {
+			projectId: {type: "integer", minimum: 1},
+		},
+	};
+}